@@ -1,105 +1,16 @@
-import { Hono } from "hono";
-import { cors } from "hono/cors";
 import { handle } from "hono/netlify";
-import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
-import { toFetchResponse, toReqRes } from "fetch-to-node";
-import { setupMCPServer } from "../mcp-server/index.js";
+import { createApp } from "../http/app.js";
 
-const app = new Hono();
+export default handle(createApp());
 
-app.use(
-  "/mcp",
-  cors({
-    origin: "*",
-    allowMethods: ["POST", "GET", "DELETE", "OPTIONS"],
-    allowHeaders: [
-      "Content-Type",
-      "Accept",
-      "Authorization",
-      "Mcp-Session-Id",
-      "MCP-Session-Id",
-      "mcp-session-id",
-      "Last-Event-ID",
-    ],
-    exposeHeaders: [
-      "Content-Type",
-      "Mcp-Session-Id",
-      "MCP-Session-Id",
-      "mcp-session-id",
-    ],
-    maxAge: 86400,
-  })
-);
-
-app.post("/mcp", async (c) => {
-  const { req, res } = toReqRes(c.req.raw);
-  const server = setupMCPServer();
-
-  try {
-    const transport: StreamableHTTPServerTransport =
-      new StreamableHTTPServerTransport({
-        sessionIdGenerator: undefined,
-      });
-
-    await server.connect(transport);
-    await transport.handleRequest(req, res, await c.req.json());
-
-    res.on("close", () => {
-      console.log("Request closed");
-      transport.close();
-      server.close();
-    });
-
-    return toFetchResponse(res);
-  } catch (e) {
-    console.error(e);
-    return c.json(
-      {
-        jsonrpc: "2.0",
-        error: {
-          code: -32603,
-          message: "Internal server error",
-        },
-        id: null,
-      },
-      { status: 500 }
-    );
-  }
-});
-
-app.get("/mcp", async (c) => {
-  console.log("Received GET MCP request");
-  return c.json(
-    {
-      jsonrpc: "2.0",
-      error: {
-        code: -32000,
-        message: "Method not allowed.",
-      },
-      id: null,
-    },
-    { status: 405 }
-  );
-});
-
-app.delete("/mcp", async (c) => {
-  console.log("Received DELETE MCP request");
-  return c.json(
-    {
-      jsonrpc: "2.0",
-      error: {
-        code: -32000,
-        message: "Method not allowed.",
-      },
-      id: null,
-    },
-    { status: 405 }
-  );
-});
-
-export default handle(app);
-
-// Ensure this function responds to the <domain>/mcp path
+// Ensure this function responds to the <domain>/mcp path, its metadata and
+// the monitoring routes
 export const config = {
-  path: "/mcp",
+  path: [
+    "/mcp",
+    "/.well-known/oauth-protected-resource",
+    "/.well-known/oauth-protected-resource/mcp",
+    "/health",
+    "/metrics",
+  ],
 };
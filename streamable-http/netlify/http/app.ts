@@ -0,0 +1,159 @@
+import { Hono } from "hono";
+import { cors } from "hono/cors";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { toFetchResponse, toReqRes } from "fetch-to-node";
+import { getConfig } from "../mcp-server/config.js";
+import { setupMCPServer } from "../mcp-server/index.js";
+import { createLogger } from "../mcp-server/logger.js";
+import {
+  createAuthMiddleware,
+  loadAuthConfig,
+  protectedResourceMetadata,
+  type AuthEnv,
+} from "./auth.js";
+import { healthCheck, metricsEndpoint } from "./monitoring.js";
+import { createRateLimitMiddleware } from "./rate-limit.js";
+import { createSessionManager, isStatefulMode } from "./sessions.js";
+
+const log = createLogger("http");
+
+/**
+ * The HTTP app: /mcp with its auth, rate-limit and session handling, the
+ * OAuth protected-resource metadata and the monitoring routes. Served by the
+ * Netlify function and by the standalone Node server.
+ */
+export function createApp(): Hono<AuthEnv> {
+  const app = new Hono<AuthEnv>();
+  // These, like the rate-limit middleware below, throw on invalid settings,
+  // so a bad deployment fails at startup rather than on its first tool call.
+  getConfig();
+  const authConfig = loadAuthConfig();
+
+  // Stateful mode routes POST, GET and DELETE through per-session transports;
+  // see sessions.ts.
+  const handleSessionRequest = isStatefulMode()
+    ? createSessionManager({
+        createServer: (c) =>
+          setupMCPServer({ allowedTools: c.get("auth")?.tools }),
+      })
+    : null;
+
+  app.use(
+    "/mcp",
+    cors({
+      origin: "*",
+      allowMethods: ["POST", "GET", "DELETE", "OPTIONS"],
+      allowHeaders: [
+        "Content-Type",
+        "Accept",
+        "Authorization",
+        "Mcp-Session-Id",
+        "MCP-Session-Id",
+        "mcp-session-id",
+        "Last-Event-ID",
+      ],
+      exposeHeaders: [
+        "Content-Type",
+        "Mcp-Session-Id",
+        "MCP-Session-Id",
+        "mcp-session-id",
+        "Retry-After",
+      ],
+      maxAge: 86400,
+    })
+  );
+
+  app.use("/mcp", createAuthMiddleware(authConfig));
+  app.use("/mcp", createRateLimitMiddleware());
+
+  // OAuth protected-resource metadata; the path-suffixed form is what clients
+  // derive from the /mcp resource URL.
+  app.use("/.well-known/*", cors({ origin: "*", allowMethods: ["GET"] }));
+  app.get(
+    "/.well-known/oauth-protected-resource",
+    protectedResourceMetadata(authConfig)
+  );
+  app.get(
+    "/.well-known/oauth-protected-resource/mcp",
+    protectedResourceMetadata(authConfig)
+  );
+
+  // Engine health, cache hit ratio and the parser self-test; Prometheus
+  // metrics. See monitoring.ts.
+  app.get("/health", healthCheck());
+  app.get("/metrics", metricsEndpoint());
+
+  app.post("/mcp", async (c) => {
+    if (handleSessionRequest) return handleSessionRequest(c);
+
+    const { req, res } = toReqRes(c.req.raw);
+    const server = setupMCPServer({ allowedTools: c.get("auth")?.tools });
+
+    try {
+      const transport: StreamableHTTPServerTransport =
+        new StreamableHTTPServerTransport({
+          sessionIdGenerator: undefined,
+        });
+
+      await server.connect(transport);
+      await transport.handleRequest(req, res, await c.req.json());
+
+      res.on("close", () => {
+        log.debug("request closed");
+        transport.close();
+        server.close();
+      });
+
+      return toFetchResponse(res);
+    } catch (e) {
+      log.error("request failed", { error: e });
+      return c.json(
+        {
+          jsonrpc: "2.0",
+          error: {
+            code: -32603,
+            message: "Internal server error",
+          },
+          id: null,
+        },
+        { status: 500 }
+      );
+    }
+  });
+
+  app.get("/mcp", async (c) => {
+    if (handleSessionRequest) return handleSessionRequest(c);
+
+    log.info("received GET request");
+    return c.json(
+      {
+        jsonrpc: "2.0",
+        error: {
+          code: -32000,
+          message: "Method not allowed.",
+        },
+        id: null,
+      },
+      { status: 405 }
+    );
+  });
+
+  app.delete("/mcp", async (c) => {
+    if (handleSessionRequest) return handleSessionRequest(c);
+
+    log.info("received DELETE request");
+    return c.json(
+      {
+        jsonrpc: "2.0",
+        error: {
+          code: -32000,
+          message: "Method not allowed.",
+        },
+        id: null,
+      },
+      { status: 405 }
+    );
+  });
+
+  return app;
+}
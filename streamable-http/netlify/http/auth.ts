@@ -0,0 +1,199 @@
+/**
+ * Optional bearer-token authentication for the /mcp endpoint.
+ *
+ * Auth is off until at least one credential is configured. Clients send
+ * `Authorization: Bearer <token>`; a missing or unknown token gets a 401
+ * with a `WWW-Authenticate` header pointing at the protected-resource
+ * metadata (RFC 9728), and a `tools/call` for a tool outside the key's
+ * allowlist gets a 403.
+ *
+ * Environment:
+ *   MCP_AUTH_TOKENS   comma-separated static tokens with access to every tool
+ *   MCP_API_KEYS      JSON array of keys with optional tool allowlists:
+ *                     [{"id": "ci", "sha256": "<hex>", "tools": ["web_search"]}]
+ *                     `sha256` is the hex SHA-256 of the token, so the token
+ *                     itself never has to be stored; `token` is accepted too
+ *   MCP_AUTH_SERVERS  comma-separated OAuth authorization server URLs to
+ *                     advertise in the metadata document
+ *   MCP_RESOURCE_URL  canonical URL of the endpoint (default: <origin>/mcp)
+ */
+
+import { createHash, timingSafeEqual } from "node:crypto";
+import type { Context } from "hono";
+import { createMiddleware } from "hono/factory";
+import { createLogger } from "../mcp-server/logger.js";
+import { getCalledTools, jsonRpcError, readJsonBody } from "./jsonrpc.js";
+
+export interface ApiKey {
+  /** Shown in logs and used to attribute requests; never the token itself. */
+  id: string;
+  /** Hex SHA-256 of the bearer token. */
+  sha256: string;
+  /** Tools this key may call; undefined means all of them. */
+  tools?: string[];
+}
+
+export interface AuthConfig {
+  keys: ApiKey[];
+  authorizationServers: string[];
+  resourceUrl?: string;
+}
+
+/** The authenticated caller, set on the Hono context as `auth`. */
+export interface AuthContext {
+  keyId: string;
+  tools?: string[];
+}
+
+export type AuthEnv = { Variables: { auth?: AuthContext } };
+
+const log = createLogger("auth");
+
+const JSON_RPC_UNAUTHORIZED = -32001;
+const JSON_RPC_FORBIDDEN = -32003;
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function parseList(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function parseApiKeys(value: string | undefined): ApiKey[] {
+  if (!value?.trim()) return [];
+  let entries: unknown;
+  try {
+    entries = JSON.parse(value);
+  } catch (e) {
+    throw new Error(`MCP_API_KEYS is not valid JSON: ${(e as Error).message}`);
+  }
+  if (!Array.isArray(entries)) {
+    throw new Error("MCP_API_KEYS must be a JSON array of keys.");
+  }
+  return entries.map((entry, i) => {
+    const { id, sha256, token, tools } = (entry ?? {}) as Record<string, unknown>;
+    const digest =
+      typeof sha256 === "string"
+        ? sha256.trim().toLowerCase()
+        : typeof token === "string"
+          ? hashToken(token)
+          : "";
+    if (!/^[0-9a-f]{64}$/.test(digest)) {
+      throw new Error(
+        `MCP_API_KEYS[${i}] needs a "sha256" (64 hex characters) or a "token".`
+      );
+    }
+    const validTools =
+      Array.isArray(tools) && tools.every((tool) => typeof tool === "string");
+    if (tools !== undefined && !validTools) {
+      throw new Error(`MCP_API_KEYS[${i}].tools must be an array of tool names.`);
+    }
+    return {
+      id: typeof id === "string" && id ? id : `key-${i + 1}`,
+      sha256: digest,
+      tools: tools as string[] | undefined,
+    };
+  });
+}
+
+export function loadAuthConfig(
+  env: Record<string, string | undefined> = process.env
+): AuthConfig {
+  const staticKeys = parseList(env.MCP_AUTH_TOKENS).map((token, i) => ({
+    id: `token-${i + 1}`,
+    sha256: hashToken(token),
+  }));
+  return {
+    keys: [...staticKeys, ...parseApiKeys(env.MCP_API_KEYS)],
+    authorizationServers: parseList(env.MCP_AUTH_SERVERS),
+    resourceUrl: env.MCP_RESOURCE_URL || undefined,
+  };
+}
+
+/** Compares digests in constant time so lookups don't leak token prefixes. */
+function findApiKey(keys: ApiKey[], token: string): ApiKey | undefined {
+  const digest = Buffer.from(hashToken(token), "hex");
+  let match: ApiKey | undefined;
+  for (const key of keys) {
+    if (timingSafeEqual(digest, Buffer.from(key.sha256, "hex"))) match ??= key;
+  }
+  return match;
+}
+
+function getResourceUrl(c: Context, config: AuthConfig): string {
+  return config.resourceUrl ?? `${new URL(c.req.url).origin}/mcp`;
+}
+
+function getMetadataUrl(c: Context, config: AuthConfig): string {
+  const { origin } = new URL(getResourceUrl(c, config));
+  return `${origin}/.well-known/oauth-protected-resource`;
+}
+
+export function createAuthMiddleware(config: AuthConfig = loadAuthConfig()) {
+  if (config.keys.length === 0) {
+    log.info("no credentials configured, /mcp is open");
+  }
+
+  return createMiddleware<AuthEnv>(async (c, next) => {
+    if (config.keys.length === 0 || c.req.method === "OPTIONS") {
+      return next();
+    }
+
+    const header = c.req.header("Authorization") ?? "";
+    const token = header.match(/^Bearer\s+(\S+)\s*$/i)?.[1];
+    const key = token ? findApiKey(config.keys, token) : undefined;
+    if (!key) {
+      const challenge = [
+        `Bearer resource_metadata="${getMetadataUrl(c, config)}"`,
+        ...(token ? ['error="invalid_token"'] : []),
+      ].join(", ");
+      c.header("WWW-Authenticate", challenge);
+      log.info("rejected request", { token: token ? "invalid" : "missing" });
+      return jsonRpcError(
+        c,
+        401,
+        JSON_RPC_UNAUTHORIZED,
+        `Unauthorized: ${token ? "invalid" : "missing"} bearer token.`
+      );
+    }
+
+    if (key.tools && c.req.method === "POST") {
+      const body = await readJsonBody(c);
+      const denied = getCalledTools(body).find(
+        (call) => !key.tools!.includes(call.name)
+      );
+      if (denied) {
+        log.info("denied tool", { keyId: key.id, tool: denied.name });
+        return jsonRpcError(
+          c,
+          403,
+          JSON_RPC_FORBIDDEN,
+          `Forbidden: this API key may not call "${denied.name}".`,
+          Array.isArray(body) ? null : denied.id
+        );
+      }
+    }
+
+    c.set("auth", { keyId: key.id, tools: key.tools });
+    await next();
+  });
+}
+
+/**
+ * OAuth 2.0 Protected Resource Metadata (RFC 9728), served at
+ * /.well-known/oauth-protected-resource so MCP clients can discover how to
+ * authenticate.
+ */
+export function protectedResourceMetadata(config: AuthConfig = loadAuthConfig()) {
+  return (c: Context) =>
+    c.json({
+      resource: getResourceUrl(c, config),
+      authorization_servers: config.authorizationServers,
+      bearer_methods_supported: ["header"],
+      resource_name: "orz MCP",
+    });
+}
@@ -0,0 +1,37 @@
+/**
+ * JSON-RPC helpers shared by the /mcp middlewares, which have to answer
+ * before the request ever reaches the MCP transport.
+ */
+
+import type { Context } from "hono";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
+
+export function jsonRpcError(
+  c: Context,
+  status: ContentfulStatusCode,
+  code: number,
+  message: string,
+  id: unknown = null
+) {
+  return c.json({ jsonrpc: "2.0", error: { code, message }, id }, { status });
+}
+
+/** Names of the tools a JSON-RPC message (or batch) asks to call. */
+export function getCalledTools(body: unknown): { name: string; id: unknown }[] {
+  const messages = Array.isArray(body) ? body : [body];
+  return messages
+    .filter(
+      (message) =>
+        message?.method === "tools/call" &&
+        typeof message.params?.name === "string"
+    )
+    .map((message) => ({ name: message.params.name, id: message.id ?? null }));
+}
+
+/**
+ * The parsed request body, or undefined when it isn't JSON. Hono caches the
+ * parsed body, so the route handler can read it again.
+ */
+export function readJsonBody(c: Context): Promise<unknown> {
+  return c.req.json().catch(() => undefined);
+}
@@ -0,0 +1,54 @@
+/**
+ * Monitoring routes next to /mcp.
+ *
+ * - GET /health reports the circuit breakers of every engine and mirror, the
+ *   outbound proxies and the cache hit ratio of this instance. `?selftest=1`
+ *   also runs the result parsers against their stored fixtures (see
+ *   ../mcp-server/selftest.ts).
+ *   The status is "ok", "degraded" while any breaker is open, or "failing"
+ *   with a 503 when the self-test fails.
+ * - GET /metrics serves the Prometheus metrics of this instance (see
+ *   ../mcp-server/metrics.ts).
+ */
+
+import type { Context } from "hono";
+import { getCacheStats } from "../mcp-server/cache.js";
+import { getProxySnapshot } from "../mcp-server/egress.js";
+import { getHealthSnapshot } from "../mcp-server/health.js";
+import { renderMetrics } from "../mcp-server/metrics.js";
+import { runParserSelfTest } from "../mcp-server/selftest.js";
+
+const startedAt = Date.now();
+
+export function healthCheck() {
+  return async (c: Context) => {
+    const engines = getHealthSnapshot();
+    const selfTest = ["1", "true"].includes(c.req.query("selftest") ?? "")
+      ? runParserSelfTest()
+      : undefined;
+    const status =
+      selfTest && !selfTest.ok
+        ? "failing"
+        : engines.some((target) => target.state === "open")
+          ? "degraded"
+          : "ok";
+    return c.json(
+      {
+        status,
+        uptimeSeconds: Math.round((Date.now() - startedAt) / 1000),
+        engines,
+        proxies: getProxySnapshot(),
+        cache: await getCacheStats(),
+        selfTest,
+      },
+      { status: status === "failing" ? 503 : 200 }
+    );
+  };
+}
+
+export function metricsEndpoint() {
+  return (c: Context) =>
+    c.text(renderMetrics(), 200, {
+      "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+    });
+}
@@ -0,0 +1,380 @@
+/**
+ * Per-client rate limiting and daily quotas for tool calls on /mcp.
+ *
+ * Clients are identified by their API key when auth is on (see auth.ts) and
+ * by their IP otherwise: the address Netlify reports on Netlify, the socket
+ * address on the Node server. Forwarding headers are only believed from
+ * TRUSTED_PROXIES, since anyone can send them. Every tool has its own
+ * budget, so a burst of web_fetch calls can't starve web_search. Budgets
+ * are fixed windows: one per minute and one per UTC day. A call over budget
+ * gets a 429 with `Retry-After` set to the end of the exhausted window.
+ *
+ * Environment:
+ *   RATE_LIMIT_STORE             memory (default) | netlify-blobs | none
+ *   RATE_LIMIT_SEARCH_PER_MINUTE web_search calls per minute (default 30)
+ *   RATE_LIMIT_FETCH_PER_MINUTE  web_fetch calls per minute (default 60)
+ *   RATE_LIMIT_FETCH_MANY_PER_MINUTE
+ *                                web_fetch_many calls per minute (default 10)
+ *   RATE_LIMIT_RESEARCH_PER_MINUTE
+ *                                web_research calls per minute (default 10)
+ *   RATE_LIMIT_CRAWL_PER_MINUTE  web_crawl calls per minute (default 5)
+ *   QUOTA_SEARCH_PER_DAY         web_search calls per day (default unlimited)
+ *   QUOTA_FETCH_PER_DAY          web_fetch calls per day (default unlimited)
+ *   QUOTA_FETCH_MANY_PER_DAY     web_fetch_many calls per day (default
+ *                                unlimited)
+ *   QUOTA_RESEARCH_PER_DAY       web_research calls per day (default
+ *                                unlimited)
+ *   QUOTA_CRAWL_PER_DAY          web_crawl calls per day (default unlimited)
+ *   TRUSTED_PROXIES              comma-separated addresses or CIDR ranges of
+ *                                reverse proxies in front of the Node server
+ *                                whose X-Forwarded-For / X-Real-IP are used
+ *
+ * A limit of 0 disables that budget. Tools without a budget are unlimited.
+ * An unknown RATE_LIMIT_STORE fails at startup. While the configured store
+ * can't be set up or read, limited tool calls get a 503 rather than going
+ * through unlimited.
+ */
+
+import { createHash } from "node:crypto";
+import { BlockList, isIP } from "node:net";
+import type { Context } from "hono";
+import { createMiddleware } from "hono/factory";
+import type { KeyValueClient } from "../mcp-server/cache.js";
+import { createLogger } from "../mcp-server/logger.js";
+import type { AuthEnv } from "./auth.js";
+import { getCalledTools, jsonRpcError, readJsonBody } from "./jsonrpc.js";
+
+const log = createLogger("rate-limit");
+
+// ============================================================================
+// Counter stores
+// ============================================================================
+
+export interface RateLimitStore {
+  readonly name: string;
+  /** Current count for `key`, 0 if unset or expired. */
+  get(key: string): Promise<number>;
+  /** Adds one to `key` (created with `expiresAt`) and returns the new count. */
+  increment(key: string, expiresAt: number): Promise<number>;
+}
+
+interface Counter {
+  count: number;
+  expiresAt: number;
+}
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const counters = new Map<string, Counter>();
+  const sweep = (now: number) => {
+    for (const [key, counter] of counters) {
+      if (counter.expiresAt <= now) counters.delete(key);
+    }
+  };
+  return {
+    name: "memory",
+    async get(key) {
+      const counter = counters.get(key);
+      return counter && counter.expiresAt > Date.now() ? counter.count : 0;
+    },
+    async increment(key, expiresAt) {
+      const now = Date.now();
+      let counter = counters.get(key);
+      if (!counter || counter.expiresAt <= now) {
+        // Window keys never repeat, so expired counters are only garbage.
+        sweep(now);
+        counter = { count: 0, expiresAt };
+        counters.set(key, counter);
+      }
+      return ++counter.count;
+    },
+  };
+}
+
+/**
+ * Counters in a key-value store shared by every function instance. The
+ * read-modify-write isn't atomic, so concurrent calls can undercount a
+ * little; that's acceptable for abuse protection, not for billing.
+ */
+export function createKeyValueRateLimitStore(
+  client: KeyValueClient
+): RateLimitStore {
+  const blobKey = (key: string) =>
+    `rate-limit/${createHash("sha256").update(key).digest("hex")}`;
+  const read = async (key: string): Promise<Counter | undefined> => {
+    const counter = (await client.get(blobKey(key), { type: "json" })) as
+      | Counter
+      | null;
+    return counter && counter.expiresAt > Date.now() ? counter : undefined;
+  };
+  return {
+    name: "key-value",
+    async get(key) {
+      return (await read(key))?.count ?? 0;
+    },
+    async increment(key, expiresAt) {
+      const counter = (await read(key)) ?? { count: 0, expiresAt };
+      counter.count++;
+      await client.setJSON(blobKey(key), counter);
+      return counter.count;
+    },
+  };
+}
+
+async function createNetlifyBlobsRateLimitStore(): Promise<RateLimitStore> {
+  const { getStore } = await import("@netlify/blobs");
+  const store = createKeyValueRateLimitStore(getStore("orz-mcp-rate-limit"));
+  return { ...store, name: "netlify-blobs" };
+}
+
+/** The store RATE_LIMIT_STORE selects; throws on an unknown value. */
+export function createConfiguredStore(
+  value: string = process.env.RATE_LIMIT_STORE ?? "memory"
+): Promise<RateLimitStore | null> {
+  const kind = value.toLowerCase();
+  switch (kind) {
+    case "none":
+      return Promise.resolve(null);
+    case "memory":
+      return Promise.resolve(createMemoryRateLimitStore());
+    case "netlify-blobs":
+      return createNetlifyBlobsRateLimitStore();
+    default:
+      throw new Error(
+        `Unknown RATE_LIMIT_STORE "${value}". Expected memory, netlify-blobs or none.`
+      );
+  }
+}
+
+// ============================================================================
+// Budgets
+// ============================================================================
+
+export interface ToolBudget {
+  perMinute: number;
+  perDay: number;
+}
+
+export type RateLimits = Record<string, ToolBudget>;
+
+function readLimit(value: string | undefined, fallback: number): number {
+  const limit = Number(value ?? fallback);
+  return Number.isFinite(limit) && limit > 0 ? Math.floor(limit) : 0;
+}
+
+export function loadRateLimits(
+  env: Record<string, string | undefined> = process.env
+): RateLimits {
+  return {
+    web_search: {
+      perMinute: readLimit(env.RATE_LIMIT_SEARCH_PER_MINUTE, 30),
+      perDay: readLimit(env.QUOTA_SEARCH_PER_DAY, 0),
+    },
+    web_fetch: {
+      perMinute: readLimit(env.RATE_LIMIT_FETCH_PER_MINUTE, 60),
+      perDay: readLimit(env.QUOTA_FETCH_PER_DAY, 0),
+    },
+    web_fetch_many: {
+      perMinute: readLimit(env.RATE_LIMIT_FETCH_MANY_PER_MINUTE, 10),
+      perDay: readLimit(env.QUOTA_FETCH_MANY_PER_DAY, 0),
+    },
+    web_research: {
+      perMinute: readLimit(env.RATE_LIMIT_RESEARCH_PER_MINUTE, 10),
+      perDay: readLimit(env.QUOTA_RESEARCH_PER_DAY, 0),
+    },
+    web_crawl: {
+      perMinute: readLimit(env.RATE_LIMIT_CRAWL_PER_MINUTE, 5),
+      perDay: readLimit(env.QUOTA_CRAWL_PER_DAY, 0),
+    },
+  };
+}
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+interface BudgetWindow {
+  label: "minute" | "day";
+  limit: number;
+  key: string;
+  resetAt: number;
+}
+
+function getWindows(
+  client: string,
+  tool: string,
+  budget: ToolBudget,
+  now: number
+): BudgetWindow[] {
+  const windows: BudgetWindow[] = [];
+  for (const [label, limit, size] of [
+    ["minute", budget.perMinute, MINUTE_MS],
+    ["day", budget.perDay, DAY_MS],
+  ] as const) {
+    if (limit <= 0) continue;
+    const index = Math.floor(now / size);
+    windows.push({
+      label,
+      limit,
+      key: `${client}:${tool}:${label}:${index}`,
+      resetAt: (index + 1) * size,
+    });
+  }
+  return windows;
+}
+
+// ============================================================================
+// Client identity
+// ============================================================================
+
+/** What the adapters pass as `c.env`. */
+interface PlatformEnv {
+  /** hono/netlify: the function context; Netlify's edge sets `ip`. */
+  context?: { ip?: string };
+  /** @hono/node-server: the incoming request. */
+  incoming?: { socket?: { remoteAddress?: string } };
+}
+
+/** TRUSTED_PROXIES as a BlockList; throws on entries that aren't IPs. */
+export function loadTrustedProxies(
+  value: string | undefined = process.env.TRUSTED_PROXIES
+): BlockList {
+  const list = new BlockList();
+  for (const entry of (value ?? "").split(",")) {
+    const trimmed = entry.trim();
+    if (!trimmed) continue;
+    const [address, prefix] = trimmed.split("/");
+    const family = isIP(address);
+    const type = family === 4 ? "ipv4" : "ipv6";
+    try {
+      if (!family || (prefix !== undefined && !/^\d+$/.test(prefix))) {
+        throw new Error("not an address");
+      }
+      if (prefix === undefined) list.addAddress(address, type);
+      else list.addSubnet(address, Number(prefix), type);
+    } catch {
+      throw new Error(
+        `Invalid TRUSTED_PROXIES entry "${trimmed}". Expected an IP address or CIDR range.`
+      );
+    }
+  }
+  return list;
+}
+
+function isTrusted(address: string, trustedProxies: BlockList): boolean {
+  const family = isIP(address);
+  return (
+    family !== 0 &&
+    trustedProxies.check(address, family === 4 ? "ipv4" : "ipv6")
+  );
+}
+
+/**
+ * The caller's IP. Behind trusted proxies, the last X-Forwarded-For hop
+ * that isn't one of them: everything left of it could be made up.
+ */
+function getClientIp(
+  c: Context<AuthEnv>,
+  trustedProxies: BlockList
+): string | undefined {
+  const env = (c.env ?? {}) as PlatformEnv;
+  if (env.context) return env.context.ip;
+  const peer = env.incoming?.socket?.remoteAddress;
+  if (!peer || !isTrusted(peer, trustedProxies)) return peer;
+  const forwarded = (c.req.header("x-forwarded-for") ?? "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  const client = forwarded
+    .slice()
+    .reverse()
+    .find((hop) => !isTrusted(hop, trustedProxies));
+  return client ?? forwarded[0] ?? c.req.header("x-real-ip") ?? peer;
+}
+
+/** The API key when authenticated, otherwise the client IP. */
+function getClientId(c: Context<AuthEnv>, trustedProxies: BlockList): string {
+  const keyId = c.get("auth")?.keyId;
+  if (keyId) return `key:${keyId}`;
+  return `ip:${getClientIp(c, trustedProxies) || "unknown"}`;
+}
+
+// ============================================================================
+// Middleware
+// ============================================================================
+
+export function createRateLimitMiddleware(
+  limits: RateLimits = loadRateLimits(),
+  store: Promise<RateLimitStore | null> = createConfiguredStore(),
+  trustedProxies: BlockList = loadTrustedProxies()
+) {
+  store.catch((e) => {
+    log.error("store setup failed", { error: e });
+  });
+
+  return createMiddleware<AuthEnv>(async (c, next) => {
+    if (c.req.method !== "POST") return next();
+
+    const body = await readJsonBody(c);
+    const calls = getCalledTools(body).filter((call) => limits[call.name]);
+    if (calls.length === 0) return next();
+
+    const unavailable = () =>
+      jsonRpcError(
+        c,
+        503,
+        -32000,
+        "Rate limiting is temporarily unavailable. Retry later.",
+        Array.isArray(body) ? null : calls[0].id
+      );
+    let limiter: RateLimitStore | null;
+    try {
+      limiter = await store;
+    } catch {
+      return unavailable();
+    }
+    if (!limiter) return next();
+
+    const client = getClientId(c, trustedProxies);
+    const now = Date.now();
+    const windows = calls.flatMap((call) =>
+      getWindows(client, call.name, limits[call.name], now).map((window) => ({
+        ...window,
+        call,
+      }))
+    );
+
+    try {
+      // Check every window before counting any, so a rejected call doesn't
+      // eat into the budgets that still had room.
+      for (const window of windows) {
+        const used = await limiter.get(window.key);
+        const pending = windows.filter((w) => w.key === window.key).length;
+        if (used + pending <= window.limit) continue;
+
+        const retryAfter = Math.max(1, Math.ceil((window.resetAt - now) / 1000));
+        log.info("limit exceeded", {
+          client,
+          tool: window.call.name,
+          window: window.label,
+          limit: window.limit,
+        });
+        c.header("Retry-After", String(retryAfter));
+        return jsonRpcError(
+          c,
+          429,
+          -32000,
+          `Rate limit exceeded: ${window.call.name} allows ${window.limit} calls per ${window.label}. Retry after ${retryAfter}s.`,
+          Array.isArray(body) ? null : window.call.id
+        );
+      }
+      for (const window of windows) {
+        await limiter.increment(window.key, window.resetAt);
+      }
+    } catch (e) {
+      // Serving without counters would drop the limits for every client.
+      log.error("store failed", { store: limiter.name, error: e });
+      return unavailable();
+    }
+
+    await next();
+  });
+}
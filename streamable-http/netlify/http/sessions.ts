@@ -0,0 +1,280 @@
+/**
+ * Optional stateful Streamable HTTP sessions for /mcp.
+ *
+ * In the default stateless mode every POST gets a fresh server and transport,
+ * so there is nowhere to push server-initiated messages. In stateful mode an
+ * `initialize` request creates a session that owns one McpServer and one
+ * transport, identified by the `Mcp-Session-Id` response header:
+ * - POST with the header reuses the session's server
+ * - GET opens the standalone SSE stream for notifications and log messages
+ * - DELETE terminates the session
+ * - every SSE event is recorded in an EventStore, so a client reconnecting
+ *   with `Last-Event-ID` gets the events it missed replayed
+ * - sessions idle for longer than the timeout are closed, checked on every
+ *   request and on a timer; an open GET stream keeps its session active
+ *
+ * Sessions live in the memory of one instance. That suits the standalone
+ * server and `netlify dev`; on Netlify, requests of one session may land on
+ * different instances, which then answer 404 and make the client start over.
+ *
+ * Environment:
+ *   MCP_SESSION_MODE          stateless (default) | stateful
+ *   MCP_SESSION_IDLE_MINUTES  idle time before a session is closed (default 30)
+ *   MCP_MAX_SESSIONS          open sessions per instance (default 100); the
+ *                             least recently used one is closed to make room
+ */
+
+import { randomUUID } from "node:crypto";
+import type { Context } from "hono";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  StreamableHTTPServerTransport,
+  type EventStore,
+} from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import {
+  isInitializeRequest,
+  type JSONRPCMessage,
+} from "@modelcontextprotocol/sdk/types.js";
+import { toFetchResponse, toReqRes } from "fetch-to-node";
+import { createLogger } from "../mcp-server/logger.js";
+import type { AuthEnv } from "./auth.js";
+import { jsonRpcError, readJsonBody } from "./jsonrpc.js";
+
+const log = createLogger("session");
+
+// Not -32001: auth.ts answers missing credentials with that.
+const JSON_RPC_SESSION_NOT_FOUND = -32004;
+
+// ============================================================================
+// Event store
+// ============================================================================
+
+/**
+ * Keeps the last `maxEventsPerStream` events of each SSE stream. Event IDs
+ * are `<streamId>_<sequence>` so the stream can be recovered from the ID
+ * alone.
+ */
+export function createMemoryEventStore(
+  maxEventsPerStream: number = 200
+): EventStore {
+  const streams = new Map<string, { id: string; message: JSONRPCMessage }[]>();
+  let sequence = 0;
+  const streamIdOf = (eventId: string) =>
+    eventId.slice(0, eventId.lastIndexOf("_"));
+
+  return {
+    async storeEvent(streamId, message) {
+      const eventId = `${streamId}_${++sequence}`;
+      const events = streams.get(streamId) ?? [];
+      events.push({ id: eventId, message });
+      if (events.length > maxEventsPerStream) events.shift();
+      streams.set(streamId, events);
+      return eventId;
+    },
+    async getStreamIdForEventId(eventId) {
+      const streamId = streamIdOf(eventId);
+      return streams.has(streamId) ? streamId : undefined;
+    },
+    async replayEventsAfter(lastEventId, { send }) {
+      const streamId = streamIdOf(lastEventId);
+      const events = streams.get(streamId) ?? [];
+      const index = events.findIndex((event) => event.id === lastEventId);
+      // An ID that has already been trimmed replays everything still kept.
+      for (const event of events.slice(index + 1)) {
+        await send(event.id, event.message);
+      }
+      return streamId;
+    },
+  };
+}
+
+// ============================================================================
+// Session manager
+// ============================================================================
+
+interface Session {
+  server: McpServer;
+  transport: StreamableHTTPServerTransport;
+  /** Sessions are bound to the API key that created them. */
+  keyId: string | undefined;
+  lastActivity: number;
+  /** GET streams the client is still reading. */
+  openStreams: number;
+}
+
+export interface SessionManagerOptions {
+  /** Builds the server for a new session, for the caller on `c`. */
+  createServer: (c: Context<AuthEnv>) => McpServer;
+  idleTimeoutMs?: number;
+  maxSessions?: number;
+  createEventStore?: () => EventStore;
+}
+
+export function isStatefulMode(): boolean {
+  const mode = (process.env.MCP_SESSION_MODE ?? "stateless").toLowerCase();
+  return mode === "stateful";
+}
+
+export function createSessionManager({
+  createServer,
+  idleTimeoutMs = Number(process.env.MCP_SESSION_IDLE_MINUTES ?? 30) * 60_000,
+  maxSessions = Number(process.env.MCP_MAX_SESSIONS ?? 100),
+  createEventStore = () => createMemoryEventStore(),
+}: SessionManagerOptions) {
+  // Map iteration order doubles as LRU order: least recently used first.
+  const sessions = new Map<string, Session>();
+
+  const closeSession = (sessionId: string, reason: string) => {
+    const session = sessions.get(sessionId);
+    if (!session) return;
+    sessions.delete(sessionId);
+    log.info("closed", { sessionId, reason });
+    // Closing the transport ends its open SSE streams.
+    session.transport.close().catch(() => {});
+    session.server.close().catch(() => {});
+  };
+
+  const closeIdleSessions = () => {
+    const now = Date.now();
+    for (const [sessionId, session] of sessions) {
+      if (session.openStreams > 0) continue;
+      if (now - session.lastActivity > idleTimeoutMs) {
+        closeSession(sessionId, "idle");
+      }
+    }
+  };
+
+  // Without this, idle sessions would only close when another request comes
+  // in. unref() keeps the timer from holding the process open.
+  setInterval(closeIdleSessions, Math.min(idleTimeoutMs, 60_000)).unref();
+
+  const touch = (sessionId: string, session: Session) => {
+    session.lastActivity = Date.now();
+    sessions.delete(sessionId);
+    sessions.set(sessionId, session);
+  };
+
+  const startSession = async (c: Context<AuthEnv>) => {
+    while (sessions.size >= maxSessions) {
+      closeSession(sessions.keys().next().value!, "session limit");
+    }
+    const server = createServer(c);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      eventStore: createEventStore(),
+      onsessioninitialized: (sessionId) => {
+        log.info("opened", { sessionId });
+        sessions.set(sessionId, {
+          server,
+          transport,
+          keyId: c.get("auth")?.keyId,
+          lastActivity: Date.now(),
+          openStreams: 0,
+        });
+      },
+      onsessionclosed: (sessionId) =>
+        closeSession(sessionId, "deleted by client"),
+    });
+    await server.connect(transport);
+    return transport;
+  };
+
+  /**
+   * Counts a GET stream as activity until it ends. fetch-to-node doesn't
+   * tell `res` when the client goes away, so watch the body the client
+   * reads, and pass a disconnect on to the transport as a `close` on `res`.
+   */
+  const trackStream = (
+    sessionId: string,
+    session: Session,
+    response: Response,
+    res: { emit(event: "close"): unknown }
+  ): Response => {
+    const reader = response.body!.getReader();
+    let ended = false;
+    const end = () => {
+      if (ended) return;
+      ended = true;
+      session.openStreams--;
+      if (sessions.get(sessionId) === session) touch(sessionId, session);
+    };
+    session.openStreams++;
+    const body = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        const { done, value } = await reader.read().catch((e) => {
+          end();
+          throw e;
+        });
+        if (done) {
+          end();
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      },
+      cancel(reason) {
+        end();
+        res.emit("close");
+        return reader.cancel(reason);
+      },
+    });
+    return new Response(body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  };
+
+  /**
+   * Routes a POST, GET or DELETE on /mcp to its session, starting a new one
+   * for `initialize` requests.
+   */
+  return async function handleSessionRequest(c: Context<AuthEnv>) {
+    closeIdleSessions();
+    const sessionId = c.req.header("mcp-session-id");
+    const body = c.req.method === "POST" ? await readJsonBody(c) : undefined;
+
+    let transport: StreamableHTTPServerTransport;
+    let session: Session | undefined;
+    if (!sessionId) {
+      if (c.req.method !== "POST" || !isInitializeRequest(body)) {
+        return jsonRpcError(
+          c,
+          400,
+          -32000,
+          "Bad Request: Mcp-Session-Id header is required outside initialize."
+        );
+      }
+      transport = await startSession(c);
+    } else {
+      session = sessions.get(sessionId);
+      // 404 tells the client to start a new session with initialize.
+      if (!session || session.keyId !== c.get("auth")?.keyId) {
+        return jsonRpcError(
+          c,
+          404,
+          JSON_RPC_SESSION_NOT_FOUND,
+          "Session not found."
+        );
+      }
+      touch(sessionId, session);
+      transport = session.transport;
+    }
+
+    const { req, res } = toReqRes(c.req.raw);
+    // GET streams stay open for the life of the session, so hand the
+    // response back as soon as its headers are written instead of awaiting
+    // the transport.
+    transport.handleRequest(req, res, body).catch((e) => {
+      log.error("request failed", { error: e });
+      if (!res.headersSent) {
+        res.writeHead(500).end();
+      }
+    });
+    const response = await toFetchResponse(res);
+    if (c.req.method === "GET" && session && response.ok && response.body) {
+      return trackStream(sessionId!, session, response, res);
+    }
+    return response;
+  };
+}
@@ -0,0 +1,229 @@
+/**
+ * Structured blocks for web_fetch's "json" and "text" formats.
+ *
+ * Walks a linkedom document and flattens it into headings, paragraphs,
+ * lists, code, tables, quotes and images in document order. Inline markup
+ * is reduced to its text; layout containers only separate paragraphs.
+ */
+
+import { parseHTML } from "linkedom";
+import { getCodeLanguage } from "./markdown.js";
+
+export type ContentBlock =
+  | { type: "heading"; level: number; text: string }
+  | { type: "paragraph"; text: string }
+  | { type: "list"; ordered: boolean; items: string[] }
+  | { type: "code"; language: string | null; text: string }
+  | { type: "table"; headers: string[]; rows: string[][] }
+  | { type: "quote"; text: string }
+  | { type: "image"; url: string; alt: string };
+
+// Node.nodeType values; there is no global Node in Node.js.
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+
+const SKIPPED_TAGS = new Set([
+  "HEAD",
+  "SCRIPT",
+  "STYLE",
+  "NOSCRIPT",
+  "TEMPLATE",
+  "SVG",
+  "IFRAME",
+  "OBJECT",
+  "EMBED",
+  "BUTTON",
+  "SELECT",
+]);
+
+// Elements that end the running paragraph; anything else is inline.
+const BLOCK_TAGS = new Set([
+  "HTML",
+  "BODY",
+  "ADDRESS",
+  "ARTICLE",
+  "ASIDE",
+  "DD",
+  "DETAILS",
+  "DIV",
+  "DL",
+  "DT",
+  "FIELDSET",
+  "FIGCAPTION",
+  "FIGURE",
+  "FOOTER",
+  "FORM",
+  "HEADER",
+  "HR",
+  "LI",
+  "MAIN",
+  "NAV",
+  "P",
+  "SECTION",
+  "SUMMARY",
+]);
+
+function collapseWhitespace(text: string | null | undefined): string {
+  return (text ?? "").replace(/\s+/g, " ").trim();
+}
+
+function resolveUrl(src: string, baseUrl: string): string {
+  try {
+    return new URL(src.trim(), baseUrl).href;
+  } catch {
+    return src.trim();
+  }
+}
+
+function readTable(table: Element): ContentBlock | null {
+  const rows = Array.from(table.querySelectorAll("tr"));
+  const cells = rows.map((row) =>
+    Array.from(row.querySelectorAll("th, td")).map((cell) =>
+      collapseWhitespace(cell.textContent)
+    )
+  );
+  if (cells.every((row) => row.length === 0)) return null;
+  const hasHeader =
+    !!table.querySelector("thead") || !!rows[0]?.querySelector("th");
+  return {
+    type: "table",
+    headers: hasHeader ? cells.shift()! : [],
+    rows: cells.filter((row) => row.length > 0),
+  };
+}
+
+/**
+ * Blocks of an HTML page or fragment. Image URLs resolve against
+ * `baseUrl`.
+ */
+export function htmlToBlocks(html: string, baseUrl: string): ContentBlock[] {
+  const { document } = parseHTML(html);
+  const blocks: ContentBlock[] = [];
+  let inline = "";
+  // Images inside a paragraph follow it instead of splitting it.
+  let images: ContentBlock[] = [];
+
+  const flush = () => {
+    const text = collapseWhitespace(inline);
+    inline = "";
+    if (text) blocks.push({ type: "paragraph", text });
+    blocks.push(...images);
+    images = [];
+  };
+
+  const walk = (node: Node): void => {
+    if (node.nodeType === TEXT_NODE) {
+      inline += node.textContent ?? "";
+      return;
+    }
+    if (node.nodeType !== ELEMENT_NODE) return;
+    const element = node as Element;
+    const tag = element.tagName.toUpperCase();
+    if (SKIPPED_TAGS.has(tag)) return;
+
+    const heading = /^H([1-6])$/.exec(tag);
+    if (heading) {
+      flush();
+      const text = collapseWhitespace(node.textContent);
+      if (text) blocks.push({ type: "heading", level: +heading[1], text });
+      return;
+    }
+    switch (tag) {
+      case "UL":
+      case "OL": {
+        flush();
+        const items = Array.from(element.children)
+          .filter((child) => child.tagName.toUpperCase() === "LI")
+          .map((item) => collapseWhitespace(item.textContent))
+          .filter(Boolean);
+        if (items.length > 0) {
+          blocks.push({ type: "list", ordered: tag === "OL", items });
+        }
+        return;
+      }
+      case "PRE": {
+        flush();
+        const language = getCodeLanguage([
+          element.querySelector("code")?.getAttribute("class"),
+          element.getAttribute("class"),
+          element.parentElement?.getAttribute("class"),
+        ]);
+        const text = (node.textContent ?? "").replace(/\n+$/, "");
+        if (text.trim()) {
+          blocks.push({ type: "code", language: language || null, text });
+        }
+        return;
+      }
+      case "TABLE": {
+        // Tables nested in tables are page layout, not data.
+        if (!element.querySelector("table")) {
+          flush();
+          const table = readTable(element);
+          if (table) blocks.push(table);
+          return;
+        }
+        break;
+      }
+      case "BLOCKQUOTE": {
+        flush();
+        const text = collapseWhitespace(node.textContent);
+        if (text) blocks.push({ type: "quote", text });
+        return;
+      }
+      case "IMG": {
+        const src =
+          element.getAttribute("src") || element.getAttribute("data-src");
+        if (src) {
+          images.push({
+            type: "image",
+            url: resolveUrl(src, baseUrl),
+            alt: collapseWhitespace(element.getAttribute("alt")),
+          });
+        }
+        return;
+      }
+      case "BR":
+        inline += " ";
+        return;
+    }
+
+    const isBlock = BLOCK_TAGS.has(tag) || tag === "TABLE";
+    if (isBlock) flush();
+    for (const child of Array.from(node.childNodes)) walk(child);
+    if (isBlock) flush();
+  };
+
+  // Fragments parse without <html>/<body>, so walk from the document.
+  for (const child of Array.from(document.childNodes)) walk(child);
+  flush();
+  return blocks;
+}
+
+/**
+ * Plain text of the blocks: one block per paragraph, list items on their
+ * own lines and table cells separated by tabs. Images are left out.
+ */
+export function blocksToText(blocks: ContentBlock[]): string {
+  return blocks
+    .map((block) => {
+      switch (block.type) {
+        case "list":
+          return block.items
+            .map((item, i) =>
+              block.ordered ? `${i + 1}. ${item}` : `- ${item}`
+            )
+            .join("\n");
+        case "table":
+          return [block.headers, ...block.rows]
+            .filter((row) => row.length > 0)
+            .map((row) => row.join("\t"))
+            .join("\n");
+        case "image":
+          return "";
+        default:
+          return block.text;
+      }
+    })
+    .filter(Boolean)
+    .join("\n\n");
+}
@@ -0,0 +1,418 @@
+/**
+ * Response cache for web_search and web_fetch.
+ *
+ * Values are stored as JSON with an absolute expiry so every backend can
+ * share the same TTL handling:
+ * - memory: per-instance LRU (default)
+ * - file: one JSON file per key under a directory, for self-hosting
+ * - netlify-blobs: a key-value adapter over a Netlify Blobs store
+ *
+ * Select the backend with CACHE_STORE (memory | file | netlify-blobs | none)
+ * and, for the file store, CACHE_DIR. CACHE_MEMORY_MB caps the memory store
+ * and CACHE_FILE_MB the file store (default 64 each); a fetched document
+ * alone can be megabytes.
+ */
+
+import { createHash } from "node:crypto";
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rm,
+  stat,
+  writeFile,
+} from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createLogger } from "./logger.js";
+import { cacheLookups } from "./metrics.js";
+
+const log = createLogger("cache");
+
+// ============================================================================
+// Store interface
+// ============================================================================
+
+export interface CacheEntry {
+  value: unknown;
+  /** Epoch milliseconds after which the entry is stale. */
+  expiresAt: number;
+}
+
+export interface CacheStore {
+  readonly name: string;
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * The subset of a key-value client the adapter needs. A Netlify Blobs store
+ * (`getStore(name)` from `@netlify/blobs`) satisfies it as-is.
+ */
+export interface KeyValueClient {
+  get(key: string, options: { type: "json" }): Promise<unknown>;
+  setJSON(key: string, value: unknown): Promise<unknown>;
+  delete(key: string): Promise<unknown>;
+}
+
+function isCacheEntry(value: unknown): value is CacheEntry {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "value" in value &&
+    typeof (value as CacheEntry).expiresAt === "number"
+  );
+}
+
+/** Keys may contain URLs and queries; hash them for file names and blob keys. */
+function hashKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+// ============================================================================
+// Store implementations
+// ============================================================================
+
+const DEFAULT_MEMORY_CACHE_BYTES = 64 * 1024 * 1024;
+const DEFAULT_FILE_CACHE_BYTES = 64 * 1024 * 1024;
+/** How often the file store re-reads its directory to drop expired files. */
+const FILE_CACHE_SWEEP_MS = 10 * 60 * 1000;
+
+/**
+ * LRU bounded by entry count and by the total size of the entries, measured
+ * as their UTF-8 JSON. An entry larger than `maxBytes` on its own is not
+ * stored at all.
+ */
+export function createMemoryCacheStore(
+  maxEntries: number = 200,
+  maxBytes: number = DEFAULT_MEMORY_CACHE_BYTES
+): CacheStore {
+  // Map iteration order doubles as LRU order: oldest entries come first.
+  const entries = new Map<string, { entry: CacheEntry; size: number }>();
+  let totalBytes = 0;
+  const remove = (key: string) => {
+    const stored = entries.get(key);
+    if (!stored) return;
+    entries.delete(key);
+    totalBytes -= stored.size;
+  };
+  return {
+    name: "memory",
+    async get(key) {
+      const stored = entries.get(key);
+      if (!stored) return undefined;
+      entries.delete(key);
+      entries.set(key, stored);
+      return stored.entry;
+    },
+    async set(key, entry) {
+      remove(key);
+      const size = Buffer.byteLength(JSON.stringify(entry));
+      if (size > maxBytes) {
+        log.debug("entry too large for memory store", { key, size });
+        return;
+      }
+      entries.set(key, { entry, size });
+      totalBytes += size;
+      while (entries.size > maxEntries || totalBytes > maxBytes) {
+        remove(entries.keys().next().value!);
+      }
+    },
+    async delete(key) {
+      remove(key);
+    },
+  };
+}
+
+interface FileIndexEntry {
+  size: number;
+  expiresAt: number;
+}
+
+/**
+ * One JSON file per key, bounded by the total size of the files. An index of
+ * sizes and expiry times, in LRU order, is built from the directory on first
+ * use and rebuilt every FILE_CACHE_SWEEP_MS on write, so files written by
+ * earlier runs or other processes are accounted for. Each write drops expired
+ * files and then evicts least recently used ones until the store fits.
+ */
+export function createFileCacheStore(
+  directory: string,
+  maxBytes: number = DEFAULT_FILE_CACHE_BYTES
+): CacheStore {
+  const index = new Map<string, FileIndexEntry>();
+  let totalBytes = 0;
+  let lastSweep = 0;
+
+  const fileFor = (key: string) => `${hashKey(key)}.json`;
+  const track = (file: string, entry: FileIndexEntry) => {
+    untrack(file);
+    index.set(file, entry);
+    totalBytes += entry.size;
+  };
+  const untrack = (file: string) => {
+    const tracked = index.get(file);
+    if (!tracked) return;
+    index.delete(file);
+    totalBytes -= tracked.size;
+  };
+  const remove = async (file: string) => {
+    untrack(file);
+    await rm(join(directory, file), { force: true });
+  };
+
+  /** Rebuilds the index from disk, oldest files first. */
+  const sweep = async () => {
+    lastSweep = Date.now();
+    const found: Array<{ file: string; mtime: number } & FileIndexEntry> = [];
+    for (const file of await readdir(directory)) {
+      if (!file.endsWith(".json")) continue;
+      try {
+        const path = join(directory, file);
+        const [info, text] = await Promise.all([
+          stat(path),
+          readFile(path, "utf8"),
+        ]);
+        const entry: unknown = JSON.parse(text);
+        if (!isCacheEntry(entry) || entry.expiresAt <= lastSweep) {
+          await rm(path, { force: true });
+          continue;
+        }
+        found.push({
+          file,
+          mtime: info.mtimeMs,
+          size: info.size,
+          expiresAt: entry.expiresAt,
+        });
+      } catch (e) {
+        // Removed concurrently or half-written by another process.
+        log.debug("skipped cache file", { file, error: e });
+      }
+    }
+    index.clear();
+    totalBytes = 0;
+    found.sort((a, b) => a.mtime - b.mtime);
+    for (const { file, size, expiresAt } of found) {
+      track(file, { size, expiresAt });
+    }
+  };
+
+  const ready = mkdir(directory, { recursive: true }).then(sweep);
+
+  return {
+    name: "file",
+    async get(key) {
+      await ready;
+      const file = fileFor(key);
+      try {
+        const entry: unknown = JSON.parse(
+          await readFile(join(directory, file), "utf8")
+        );
+        if (!isCacheEntry(entry)) return undefined;
+        const tracked = index.get(file);
+        if (tracked) track(file, tracked);
+        return entry;
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code === "ENOENT") {
+          untrack(file);
+          return undefined;
+        }
+        throw e;
+      }
+    },
+    async set(key, entry) {
+      await ready;
+      if (Date.now() - lastSweep >= FILE_CACHE_SWEEP_MS) await sweep();
+      const file = fileFor(key);
+      const text = JSON.stringify(entry);
+      const size = Buffer.byteLength(text);
+      if (size > maxBytes) {
+        log.debug("entry too large for file store", { key, size });
+        await remove(file);
+        return;
+      }
+      await writeFile(join(directory, file), text);
+      track(file, { size, expiresAt: entry.expiresAt });
+
+      const now = Date.now();
+      for (const [other, { expiresAt }] of index) {
+        if (expiresAt <= now) await remove(other);
+      }
+      while (totalBytes > maxBytes) {
+        await remove(index.keys().next().value!);
+      }
+    },
+    async delete(key) {
+      await ready;
+      await remove(fileFor(key));
+    },
+  };
+}
+
+export function createKeyValueCacheStore(client: KeyValueClient): CacheStore {
+  return {
+    name: "key-value",
+    async get(key) {
+      const entry = await client.get(hashKey(key), { type: "json" });
+      return isCacheEntry(entry) ? entry : undefined;
+    },
+    async set(key, entry) {
+      await client.setJSON(hashKey(key), entry);
+    },
+    async delete(key) {
+      await client.delete(hashKey(key));
+    },
+  };
+}
+
+async function createNetlifyBlobsCacheStore(): Promise<CacheStore> {
+  const { getStore } = await import("@netlify/blobs");
+  const store = createKeyValueCacheStore(getStore("orz-mcp-cache"));
+  return { ...store, name: "netlify-blobs" };
+}
+
+// ============================================================================
+// Configured store
+// ============================================================================
+
+let storePromise: Promise<CacheStore | null> | undefined;
+
+function createConfiguredStore(): Promise<CacheStore | null> {
+  const kind = (process.env.CACHE_STORE ?? "memory").toLowerCase();
+  switch (kind) {
+    case "none":
+      return Promise.resolve(null);
+    case "memory": {
+      const megabytes = process.env.CACHE_MEMORY_MB;
+      if (megabytes === undefined) {
+        return Promise.resolve(createMemoryCacheStore());
+      }
+      if (!(Number(megabytes) > 0)) {
+        return Promise.reject(
+          new Error(
+            `Invalid CACHE_MEMORY_MB "${megabytes}". Expected a positive number.`
+          )
+        );
+      }
+      return Promise.resolve(
+        createMemoryCacheStore(200, Number(megabytes) * 1024 * 1024)
+      );
+    }
+    case "file": {
+      const directory =
+        process.env.CACHE_DIR ?? join(tmpdir(), "orz-mcp-cache");
+      const megabytes = process.env.CACHE_FILE_MB;
+      if (megabytes === undefined) {
+        return Promise.resolve(createFileCacheStore(directory));
+      }
+      if (!(Number(megabytes) > 0)) {
+        return Promise.reject(
+          new Error(
+            `Invalid CACHE_FILE_MB "${megabytes}". Expected a positive number.`
+          )
+        );
+      }
+      return Promise.resolve(
+        createFileCacheStore(directory, Number(megabytes) * 1024 * 1024)
+      );
+    }
+    case "netlify-blobs":
+      return createNetlifyBlobsCacheStore();
+    default:
+      return Promise.reject(
+        new Error(
+          `Unknown CACHE_STORE "${kind}". Expected memory, file, netlify-blobs or none.`
+        )
+      );
+  }
+}
+
+function getCacheStore(): Promise<CacheStore | null> {
+  storePromise ??= createConfiguredStore().catch((e) => {
+    log.error("store setup failed, caching disabled", { error: e });
+    return null;
+  });
+  return storePromise;
+}
+
+/** Replaces the configured store, e.g. with a store shared by several servers. */
+export function setCacheStore(store: CacheStore | null): void {
+  storePromise = Promise.resolve(store);
+}
+
+export interface CacheStats {
+  store: string;
+  hits: number;
+  misses: number;
+  /** hits / (hits + misses), null before the first lookup. */
+  hitRatio: number | null;
+}
+
+/** Lookups on this instance so far, or null when caching is disabled. */
+export async function getCacheStats(): Promise<CacheStats | null> {
+  const store = await getCacheStore();
+  if (!store) return null;
+  const hits = cacheLookups.get({ store: store.name, result: "hit" });
+  const misses = cacheLookups.get({ store: store.name, result: "miss" });
+  return {
+    store: store.name,
+    hits,
+    misses,
+    hitRatio: hits + misses > 0 ? hits / (hits + misses) : null,
+  };
+}
+
+// ============================================================================
+// Read-through helper
+// ============================================================================
+
+export interface CachedValue<T> {
+  value: T;
+  /** True when `value` came from the store instead of `load`. */
+  cached: boolean;
+}
+
+/**
+ * Returns the stored value for `key` if it is still fresh, otherwise runs
+ * `load` and stores its result. Store failures are logged and treated as a
+ * miss so a broken cache never fails a tool call. With `bypass` the store is
+ * not read, but the fresh value is still written back unless `isCacheable`
+ * rejects it.
+ */
+export async function withCache<T>(
+  key: string,
+  ttlMs: number,
+  bypass: boolean,
+  load: () => Promise<T>,
+  isCacheable: (value: T) => boolean = () => true
+): Promise<CachedValue<T>> {
+  const store = await getCacheStore();
+  if (!store || ttlMs <= 0) {
+    return { value: await load(), cached: false };
+  }
+
+  if (!bypass) {
+    try {
+      const entry = await store.get(key);
+      if (entry && entry.expiresAt > Date.now()) {
+        log.debug("hit", { store: store.name, key });
+        cacheLookups.inc({ store: store.name, result: "hit" });
+        return { value: entry.value as T, cached: true };
+      }
+      cacheLookups.inc({ store: store.name, result: "miss" });
+      if (entry) await store.delete(key);
+    } catch (e) {
+      log.error("read failed", { store: store.name, error: e });
+    }
+  }
+
+  const value = await load();
+  if (!isCacheable(value)) return { value, cached: false };
+  try {
+    await store.set(key, { value, expiresAt: Date.now() + ttlMs });
+  } catch (e) {
+    log.error("write failed", { store: store.name, error: e });
+  }
+  return { value, cached: false };
+}
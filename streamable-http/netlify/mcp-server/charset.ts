@@ -0,0 +1,97 @@
+/**
+ * Charset detection and decoding for fetched pages.
+ *
+ * `Response.text()` always decodes as UTF-8, which turns GBK, GB2312, Big5
+ * and Shift_JIS pages into mojibake. The encoding is picked in the order the
+ * HTML spec uses: byte order mark, then the Content-Type charset, then a
+ * <meta charset> / http-equiv declaration (or an XML declaration) near the
+ * top of the document, and finally UTF-8.
+ */
+
+// Browsers only look this far into the document for a meta declaration.
+const META_SNIFF_BYTES = 4096;
+
+export type CharsetSource = "bom" | "header" | "meta" | "default";
+
+export interface DetectedCharset {
+  /** A TextDecoder label, e.g. "utf-8", "gbk", "shift_jis". */
+  charset: string;
+  source: CharsetSource;
+}
+
+function detectBom(bytes: Uint8Array): string | null {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return "utf-8";
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return "utf-16be";
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return "utf-16le";
+  return null;
+}
+
+function parseContentTypeCharset(contentType: string | null): string | null {
+  const match = contentType?.match(/charset\s*=\s*["']?([^"';\s]+)/i);
+  return match ? match[1].toLowerCase() : null;
+}
+
+function sniffMetaCharset(bytes: Uint8Array): string | null {
+  // Every supported charset is ASCII-compatible for markup, so latin1 is a
+  // lossless way to scan the head for declarations.
+  const head = new TextDecoder("latin1").decode(
+    bytes.subarray(0, META_SNIFF_BYTES)
+  );
+  const patterns = [
+    /<meta[^>]+charset\s*=\s*["']?\s*([\w.:-]+)/i,
+    /<\?xml[^>]+encoding\s*=\s*["']([\w.:-]+)["']/i,
+  ];
+  for (const pattern of patterns) {
+    const match = head.match(pattern);
+    if (match) return match[1].toLowerCase();
+  }
+  return null;
+}
+
+function isSupportedCharset(label: string): boolean {
+  try {
+    new TextDecoder(label);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function detectCharset(
+  bytes: Uint8Array,
+  contentType: string | null
+): DetectedCharset {
+  const bom = detectBom(bytes);
+  if (bom) return { charset: bom, source: "bom" };
+
+  const header = parseContentTypeCharset(contentType);
+  if (header && isSupportedCharset(header)) {
+    return { charset: header, source: "header" };
+  }
+
+  const meta = sniffMetaCharset(bytes);
+  // A UTF-16 meta declaration can't be right: the bytes we just read it from
+  // were ASCII-compatible. The HTML spec treats it as UTF-8.
+  if (meta && isSupportedCharset(meta) && !meta.startsWith("utf-16")) {
+    return { charset: meta, source: "meta" };
+  }
+
+  return { charset: "utf-8", source: "default" };
+}
+
+export function decodeBody(
+  bytes: Uint8Array,
+  contentType: string | null
+): string {
+  const { charset } = detectCharset(bytes, contentType);
+  // TextDecoder strips the BOM for the matching encoding by default.
+  return new TextDecoder(charset).decode(bytes);
+}
+
+/** Drop-in replacement for `resp.text()` that honours the page's charset. */
+export async function readResponseText(resp: Response): Promise<string> {
+  const bytes = new Uint8Array(await resp.arrayBuffer());
+  return decodeBody(bytes, resp.headers.get("content-type"));
+}
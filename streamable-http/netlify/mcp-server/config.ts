@@ -0,0 +1,419 @@
+/**
+ * Server configuration: engine endpoints, timeouts, request headers, result
+ * filters and tool defaults.
+ *
+ * Sources, later ones overriding earlier ones key by key:
+ *   1. the built-in defaults below, with any the entrypoint adjusts
+ *   2. a JSON or YAML file named by ORZ_CONFIG (or `--config` on the
+ *      command line)
+ *   3. inline JSON in ORZ_CONFIG_JSON, for hosts like Netlify where shipping
+ *      a file is awkward
+ *   4. SEARXNG_URL, URL_ALLOWLIST, URL_DENYLIST, ALLOW_PRIVATE_NETWORK and
+ *      MAX_REDIRECTS, kept for existing deployments
+ *   5. single keys as ORZ_<SECTION>__<KEY>, e.g. ORZ_TIMEOUTS__UPSTREAM_MS;
+ *      values are parsed as JSON when they parse and used as strings
+ *      otherwise, so lists take JSON: ORZ_FILTERS__TRACKING_PARAMS='["ref"]'
+ *
+ * Objects are merged, everything else is replaced; a header set to "" is
+ * dropped from the defaults. The result is validated with zod, and every
+ * problem is reported with its key and the source that set it.
+ */
+
+import { readFileSync } from "node:fs";
+import { extname } from "node:path";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(`Invalid configuration: ${message}`);
+    this.name = "ConfigError";
+  }
+}
+
+// ============================================================================
+// Schema & defaults
+// ============================================================================
+
+const httpUrl = z
+  .string()
+  .url()
+  .refine((value) => /^https?:\/\//i.test(value), "Expected an http(s) URL");
+
+const regexSource = z.string().refine((value) => {
+  try {
+    new RegExp(value, "i");
+    return true;
+  } catch {
+    return false;
+  }
+}, "Invalid regular expression");
+
+const timeoutMs = z.number().int().min(100).max(300000);
+
+/** `example.com`, `.example.com` or `*.example.com`; all match subdomains. */
+const domain = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(/^(?:\*?\.)?[^\s/:*]+$/, "Expected a domain like example.com")
+  .transform((value) => value.replace(/^\*?\./, ""));
+
+export const ConfigSchema = z
+  .object({
+    engines: z
+      .object({
+        /** Engine ids run when a call doesn't pass `engines`. */
+        defaults: z.array(z.string().min(1)).nonempty().optional(),
+        braveUrl: httpUrl,
+        duckduckgoUrl: httpUrl,
+        /** Mirrors tried when DuckDuckGo answers with a captcha or error. */
+        duckduckgoFallbackUrls: z.array(httpUrl),
+        bingUrl: httpUrl,
+        mojeekUrl: httpUrl,
+        /** Self-hosted SearXNG; the engine is unavailable while empty. */
+        searxngUrl: httpUrl.or(z.literal("")),
+      })
+      .strict(),
+    timeouts: z
+      .object({
+        /** Per request to a search engine. */
+        upstreamMs: timeoutMs,
+        /** web_fetch downloads; a call's timeout_ms takes precedence. */
+        fetchMs: timeoutMs,
+      })
+      .strict(),
+    /** Browser-like headers sent with every upstream request. */
+    headers: z.record(z.string()),
+    filters: z
+      .object({
+        /** Case-insensitive patterns; matching result URLs are dropped. */
+        adPatterns: z.array(regexSource),
+        /** Query params ignored when deduplicating result URLs. */
+        trackingParams: z.array(z.string().min(1)),
+      })
+      .strict(),
+    tools: z
+      .object({
+        numResults: z.number().int().min(1).max(50),
+        maxCharSize: z.number().int().min(1000),
+        /** web_fetch_many downloads in flight at once. */
+        fetchConcurrency: z.number().int().min(1).max(20),
+        /** web_fetch_many downloads in flight per host. */
+        fetchPerHost: z.number().int().min(1).max(20),
+      })
+      .strict(),
+    /** Outbound checks for web_fetch, see url-policy.ts. */
+    urlPolicy: z
+      .object({
+        /** When non-empty, only these domains and their subdomains. */
+        allowlist: z.array(domain),
+        denylist: z.array(domain),
+        /** Skips the address checks: trusted networks, local fixtures. */
+        allowPrivateNetwork: z.boolean(),
+        maxRedirects: z.number().int().min(0).max(20),
+      })
+      .strict(),
+  })
+  .strict();
+
+export type ServerConfig = z.infer<typeof ConfigSchema>;
+
+export const DEFAULT_CONFIG: ServerConfig = {
+  engines: {
+    braveUrl: "https://search.brave.com/search",
+    duckduckgoUrl: "https://html.duckduckgo.com/html/",
+    duckduckgoFallbackUrls: [
+      "https://spin-ddg-proxy-idmlnajw.fermyon.app/",
+      "https://ddg-368306689698.europe-west1.run.app/",
+      "https://olg3d54tkkk5gv452mz42sdu6a0xzlsu.lambda-url.us-east-1.on.aws/",
+      "https://ddg.workers.rocks/",
+      "https://ddg2.workers.rocks/",
+    ],
+    bingUrl: "https://www.bing.com/search",
+    mojeekUrl: "https://www.mojeek.com/search",
+    searxngUrl: "",
+  },
+  timeouts: {
+    upstreamMs: 10000,
+    fetchMs: 10000,
+  },
+  headers: {
+    "User-Agent":
+      "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/122.0.0.0 Safari/537.36",
+    Accept:
+      "text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8",
+    "Accept-Language": "en-US,en;q=0.9",
+    "Accept-Encoding": "gzip, deflate, br",
+    "Cache-Control": "no-cache",
+    Pragma: "no-cache",
+    Referer: "https://duckduckgo.com/",
+    Origin: "https://duckduckgo.com",
+    "Upgrade-Insecure-Requests": "1",
+    DNT: "1",
+    "Sec-Fetch-Dest": "document",
+    "Sec-Fetch-Mode": "navigate",
+    "Sec-Fetch-Site": "same-origin",
+    "Sec-Fetch-User": "?1",
+    "sec-ch-ua":
+      '"Chromium";v="122", "Not(A:Brand";v="24", "Google Chrome";v="122"',
+    "sec-ch-ua-mobile": "?0",
+    "sec-ch-ua-platform": '"macOS"',
+  },
+  filters: {
+    adPatterns: [
+      "googleads\\.",
+      "doubleclick\\.",
+      "googlesyndication\\.",
+      "googleadservices\\.",
+      "adclick\\.",
+      "adsense\\.",
+      "adservice\\.",
+      "adserver\\.",
+      "clickserve\\.",
+      "clicktrack\\.",
+      "baidu\\.com\\/aclick",
+      "pos\\.baidu\\.com",
+      "cpro\\.baidu\\.com",
+      "e\\.baidu\\.com",
+      "bingads\\.",
+      "microsoftadvertising\\.",
+      "ad_provider=",
+      "ad_domain=",
+      "\\/ads?\\/",
+      "\\/advert",
+      "\\/sponsor",
+      "\\/promo\\/",
+      "\\/click\\?",
+      "\\/aclk\\?",
+      "\\/pagead\\/",
+    ],
+    trackingParams: [
+      "utm_source",
+      "utm_medium",
+      "utm_campaign",
+      "utm_term",
+      "utm_content",
+      "ref",
+      "fbclid",
+      "gclid",
+      "msclkid",
+      "spm",
+      "from",
+    ],
+  },
+  tools: {
+    numResults: 8,
+    maxCharSize: 50000,
+    fetchConcurrency: 4,
+    fetchPerHost: 2,
+  },
+  urlPolicy: {
+    allowlist: [],
+    denylist: [],
+    allowPrivateNetwork: false,
+    maxRedirects: 5,
+  },
+};
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+interface ConfigLayer {
+  /** Where the values came from, for error messages. */
+  source: string;
+  value: unknown;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Merges `value` into `target`, recording the source of every leaf. */
+function mergeLayer(
+  target: Record<string, unknown>,
+  value: Record<string, unknown>,
+  source: string,
+  sources: Map<string, string>,
+  path: string[] = []
+): void {
+  for (const [key, next] of Object.entries(value)) {
+    const keyPath = [...path, key];
+    const current = target[key];
+    if (isPlainObject(current) && isPlainObject(next)) {
+      const copy = { ...current };
+      mergeLayer(copy, next, source, sources, keyPath);
+      target[key] = copy;
+    } else {
+      target[key] = next;
+      sources.set(keyPath.join("."), source);
+    }
+  }
+}
+
+function readConfigFile(file: string): ConfigLayer {
+  let text: string;
+  try {
+    text = readFileSync(file, "utf8");
+  } catch (e) {
+    throw new ConfigError(`cannot read ${file}: ${(e as Error).message}`);
+  }
+  try {
+    const value =
+      extname(file).toLowerCase() === ".json"
+        ? JSON.parse(text)
+        : parseYaml(text);
+    return { source: file, value: value ?? {} };
+  } catch (e) {
+    throw new ConfigError(`cannot parse ${file}: ${(e as Error).message}`);
+  }
+}
+
+function toCamelCase(segment: string): string {
+  return segment
+    .toLowerCase()
+    .replace(/_([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+}
+
+function parseEnvValue(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+function parseEnvList(value: string): string[] {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/** Variables that predate the config file, with the key each one sets. */
+const LEGACY_ENV: Array<
+  [name: string, key: [string, string], parse: (raw: string) => unknown]
+> = [
+  ["SEARXNG_URL", ["engines", "searxngUrl"], (raw) => raw],
+  ["URL_ALLOWLIST", ["urlPolicy", "allowlist"], parseEnvList],
+  ["URL_DENYLIST", ["urlPolicy", "denylist"], parseEnvList],
+  ["ALLOW_PRIVATE_NETWORK", ["urlPolicy", "allowPrivateNetwork"], parseEnvValue],
+  ["MAX_REDIRECTS", ["urlPolicy", "maxRedirects"], parseEnvValue],
+];
+
+function readEnvLayers(env: Record<string, string | undefined>): ConfigLayer[] {
+  const layers: ConfigLayer[] = [];
+  if (env.ORZ_CONFIG_JSON?.trim()) {
+    try {
+      layers.push({
+        source: "ORZ_CONFIG_JSON",
+        value: JSON.parse(env.ORZ_CONFIG_JSON),
+      });
+    } catch (e) {
+      throw new ConfigError(
+        `ORZ_CONFIG_JSON is not valid JSON: ${(e as Error).message}`
+      );
+    }
+  }
+  for (const [name, [section, key], parse] of LEGACY_ENV) {
+    const raw = env[name];
+    if (raw) {
+      layers.push({ source: name, value: { [section]: { [key]: parse(raw) } } });
+    }
+  }
+  for (const [name, raw] of Object.entries(env)) {
+    if (!name.startsWith("ORZ_") || raw === undefined) continue;
+    if (name === "ORZ_CONFIG" || name === "ORZ_CONFIG_JSON") continue;
+    const path = name.slice("ORZ_".length).split("__").map(toCamelCase);
+    const value = path
+      .reverse()
+      .reduce<unknown>((inner, key) => ({ [key]: inner }), parseEnvValue(raw));
+    layers.push({ source: name, value });
+  }
+  return layers;
+}
+
+/** The source that set `path`, or the closest object holding it. */
+function sourceOf(
+  path: (string | number)[],
+  sources: Map<string, string>
+): string | undefined {
+  for (let i = path.length; i > 0; i--) {
+    const source = sources.get(path.slice(0, i).join("."));
+    if (source) return source;
+  }
+  return undefined;
+}
+
+function formatIssues(error: z.ZodError, sources: Map<string, string>): string {
+  return error.issues
+    .flatMap((issue) => {
+      if (issue.code === "unrecognized_keys") {
+        return issue.keys.map((key) => {
+          const path = [...issue.path, key];
+          const source = sourceOf(path, sources);
+          return `${path.join(".")}: unknown key${source ? ` (from ${source})` : ""}`;
+        });
+      }
+      const source = sourceOf(issue.path, sources);
+      const key = issue.path.join(".") || "(root)";
+      return [`${key}: ${issue.message}${source ? ` (from ${source})` : ""}`];
+    })
+    .map((line) => `\n  - ${line}`)
+    .join("");
+}
+
+export interface LoadConfigOptions {
+  /** Config file; defaults to ORZ_CONFIG. */
+  file?: string;
+  env?: Record<string, string | undefined>;
+  /** Entrypoint-specific defaults, merged over DEFAULT_CONFIG. */
+  defaults?: Record<string, unknown>;
+}
+
+/** Builds and validates the configuration; throws ConfigError on problems. */
+export function loadConfig({
+  file,
+  env = process.env,
+  defaults,
+}: LoadConfigOptions = {}): ServerConfig {
+  const layers: ConfigLayer[] = [];
+  if (defaults) layers.push({ source: "entrypoint defaults", value: defaults });
+  const configFile = file ?? env.ORZ_CONFIG;
+  if (configFile) layers.push(readConfigFile(configFile));
+  layers.push(...readEnvLayers(env));
+
+  const merged = structuredClone(DEFAULT_CONFIG) as Record<string, unknown>;
+  const sources = new Map<string, string>();
+  for (const layer of layers) {
+    if (!isPlainObject(layer.value)) {
+      throw new ConfigError(`${layer.source} must hold an object.`);
+    }
+    mergeLayer(merged, layer.value, layer.source, sources);
+  }
+  if (isPlainObject(merged.headers)) {
+    merged.headers = Object.fromEntries(
+      Object.entries(merged.headers).filter(([, value]) => value !== "")
+    );
+  }
+
+  const parsed = ConfigSchema.safeParse(merged);
+  if (!parsed.success) {
+    throw new ConfigError(formatIssues(parsed.error, sources));
+  }
+  return parsed.data;
+}
+
+let config: ServerConfig | undefined;
+
+/** The active configuration, loaded from the environment on first use. */
+export function getConfig(): ServerConfig {
+  config ??= loadConfig();
+  return config;
+}
+
+/** Replaces the active configuration, e.g. from `setupMCPServer` options. */
+export function setConfig(next: ServerConfig): void {
+  config = next;
+}
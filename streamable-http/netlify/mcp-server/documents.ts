@@ -0,0 +1,271 @@
+/**
+ * Document format detection and text extraction for web_fetch.
+ *
+ * Non-HTML responses used to be returned as raw text, which turns PDFs and
+ * Office files into binary garbage. The format is detected from magic bytes
+ * first (servers often send application/octet-stream) and the Content-Type
+ * second, then converted to Markdown:
+ * - PDF: text per page via PDF.js (unpdf), with a "[Page N/total]" marker
+ *   per page
+ * - DOCX: mammoth's semantic HTML, so headings, lists and tables survive
+ * - EPUB: spine chapters in reading order, with a "[Section N]" marker each
+ *
+ * Markers sit on their own paragraph so `max_char_size` chunking prefers to
+ * cut between pages and sections. DOCX and EPUB archives are refused when
+ * their entries inflate to more than MAX_INFLATED_BYTES together.
+ */
+
+import { strFromU8, Unzip, UnzipInflate, unzipSync } from "fflate";
+import mammoth from "mammoth";
+import { extractText, getDocumentProxy, getMeta } from "unpdf";
+import { decodeHtmlEntities } from "./html.js";
+import { htmlToMarkdown } from "./markdown.js";
+
+export type DocumentFormat = "html" | "text" | "pdf" | "docx" | "epub";
+
+export interface ConvertedDocument {
+  content: string;
+  title: string | null;
+  /** Author(s) as declared in the document metadata. */
+  byline: string | null;
+  publishedTime: string | null;
+}
+
+// ============================================================================
+// Detection
+// ============================================================================
+
+function startsWithBytes(bytes: Uint8Array, signature: number[]): boolean {
+  return signature.every((byte, i) => bytes[i] === byte);
+}
+
+/** Lists zip entry names without inflating any of them. */
+function listZipEntries(bytes: Uint8Array): string[] {
+  const names: string[] = [];
+  try {
+    unzipSync(bytes, {
+      filter: (file) => {
+        names.push(file.name);
+        return false;
+      },
+    });
+  } catch {
+    return [];
+  }
+  return names;
+}
+
+function looksBinary(bytes: Uint8Array): boolean {
+  const sample = bytes.subarray(0, 1024);
+  return sample.includes(0);
+}
+
+/**
+ * Detects the format of a response body, or returns null for binary content
+ * that can't be converted (images, archives, executables).
+ */
+export function detectDocumentFormat(
+  bytes: Uint8Array,
+  contentType: string
+): DocumentFormat | null {
+  const type = contentType.toLowerCase();
+
+  // "%PDF-"
+  if (startsWithBytes(bytes, [0x25, 0x50, 0x44, 0x46, 0x2d])) return "pdf";
+  // "PK\x03\x04": DOCX and EPUB are both zip containers.
+  if (startsWithBytes(bytes, [0x50, 0x4b, 0x03, 0x04])) {
+    const entries = listZipEntries(bytes);
+    if (entries.includes("word/document.xml")) return "docx";
+    if (entries.includes("META-INF/container.xml")) return "epub";
+    return null;
+  }
+
+  if (type.includes("html") || type.includes("xhtml")) return "html";
+  if (type.includes("application/pdf")) return "pdf";
+  if (looksBinary(bytes)) return null;
+  if (!type || type.startsWith("text/") || /json|xml|javascript|yaml|csv/.test(type)) {
+    // Untyped or mistyped responses that are clearly markup still get the
+    // HTML pipeline.
+    const head = strFromU8(bytes.subarray(0, 512), true).trimStart().toLowerCase();
+    if (!type && (head.startsWith("<!doctype html") || head.startsWith("<html"))) {
+      return "html";
+    }
+    return "text";
+  }
+  return null;
+}
+
+// ============================================================================
+// PDF
+// ============================================================================
+
+function formatPdfDate(value: unknown): string | null {
+  if (value instanceof Date && !Number.isNaN(value.getTime())) {
+    return value.toISOString();
+  }
+  return typeof value === "string" && value ? value : null;
+}
+
+async function convertPdf(bytes: Uint8Array): Promise<ConvertedDocument> {
+  const pdf = await getDocumentProxy(bytes);
+  const { totalPages, text } = await extractText(pdf, { mergePages: false });
+  const { info } = await getMeta(pdf, { parseDates: true }).catch(() => ({
+    info: {} as Record<string, unknown>,
+  }));
+  const pages = text.map((pageText, i) => {
+    const body = pageText.replace(/[ \t]+\n/g, "\n").replace(/\n{3,}/g, "\n\n").trim();
+    return `[Page ${i + 1}/${totalPages}]\n\n${body}`;
+  });
+  return {
+    content: pages.join("\n\n"),
+    title: typeof info.Title === "string" && info.Title.trim() ? info.Title.trim() : null,
+    byline: typeof info.Author === "string" && info.Author.trim() ? info.Author.trim() : null,
+    publishedTime: formatPdfDate(info.CreationDate),
+  };
+}
+
+// ============================================================================
+// DOCX / EPUB
+// ============================================================================
+
+function readXmlText(xml: string, tag: string): string | null {
+  const match = xml.match(
+    new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, "i")
+  );
+  const text = match ? decodeHtmlEntities(match[1].replace(/<[^>]+>/g, "")).trim() : "";
+  return text || null;
+}
+
+// A zip bomb is a few kilobytes that inflate to gigabytes.
+const MAX_INFLATED_BYTES = 200 * 1024 * 1024;
+// Deflate expands at most ~1032:1, so one chunk inflates to ~16 MB at most.
+const ZIP_CHUNK_BYTES = 16 * 1024;
+
+/**
+ * Throws when the zip's entries inflate to more than MAX_INFLATED_BYTES in
+ * total. Counts the real output instead of trusting the sizes in the
+ * headers, and drops it as it goes, so checking a bomb stays cheap.
+ */
+function assertInflatedSize(bytes: Uint8Array): void {
+  let total = 0;
+  const unzip = new Unzip((file) => {
+    file.ondata = (err, chunk) => {
+      if (err) throw err;
+      total += chunk.length;
+    };
+    file.start();
+  });
+  unzip.register(UnzipInflate);
+  for (let offset = 0; offset < bytes.length; offset += ZIP_CHUNK_BYTES) {
+    const end = offset + ZIP_CHUNK_BYTES;
+    unzip.push(bytes.subarray(offset, end), end >= bytes.length);
+    if (total > MAX_INFLATED_BYTES) {
+      throw new Error(
+        `archive inflates to more than ${MAX_INFLATED_BYTES / 1024 / 1024} MB.`
+      );
+    }
+  }
+}
+
+/** Reads only the named entries from a zip, inflating nothing else. */
+function readZipEntries(
+  bytes: Uint8Array,
+  names: Set<string>
+): Record<string, Uint8Array> {
+  return unzipSync(bytes, { filter: (file) => names.has(file.name) });
+}
+
+async function convertDocx(bytes: Uint8Array): Promise<ConvertedDocument> {
+  const { value: html } = await mammoth.convertToHtml({
+    buffer: Buffer.from(bytes),
+  });
+  const core = readZipEntries(bytes, new Set(["docProps/core.xml"]))[
+    "docProps/core.xml"
+  ];
+  const coreXml = core ? strFromU8(core) : "";
+  return {
+    content: htmlToMarkdown(html),
+    title: readXmlText(coreXml, "dc:title"),
+    byline: readXmlText(coreXml, "dc:creator"),
+    publishedTime: readXmlText(coreXml, "dcterms:created"),
+  };
+}
+
+function resolveZipPath(base: string, href: string): string {
+  const parts = base.split("/").slice(0, -1);
+  for (const segment of decodeURIComponent(href.split("#")[0]).split("/")) {
+    if (segment === "..") parts.pop();
+    else if (segment && segment !== ".") parts.push(segment);
+  }
+  return parts.join("/");
+}
+
+function convertEpub(bytes: Uint8Array): ConvertedDocument {
+  const container = readZipEntries(bytes, new Set(["META-INF/container.xml"]))[
+    "META-INF/container.xml"
+  ];
+  const opfPath = container
+    ? strFromU8(container).match(/full-path="([^"]+)"/)?.[1]
+    : undefined;
+  if (!opfPath) throw new Error("Invalid EPUB: missing package document.");
+  const opfBytes = readZipEntries(bytes, new Set([opfPath]))[opfPath];
+  if (!opfBytes) throw new Error(`Invalid EPUB: missing ${opfPath}.`);
+  const opf = strFromU8(opfBytes);
+
+  const manifest = new Map<string, string>();
+  for (const item of opf.match(/<item\s[^>]*>/gi) ?? []) {
+    const id = item.match(/\sid="([^"]+)"/)?.[1];
+    const href = item.match(/\shref="([^"]+)"/)?.[1];
+    if (id && href) manifest.set(id, resolveZipPath(opfPath, href));
+  }
+  const spine = (opf.match(/<itemref\s[^>]*>/gi) ?? [])
+    .map((ref) => ref.match(/idref="([^"]+)"/)?.[1])
+    .map((id) => (id ? manifest.get(id) : undefined))
+    .filter((path): path is string => !!path);
+
+  const chapters = readZipEntries(bytes, new Set(spine));
+  const sections: string[] = [];
+  for (const path of spine) {
+    const chapter = chapters[path];
+    if (!chapter) continue;
+    const xhtml = strFromU8(chapter);
+    const body = xhtml.match(/<body[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? xhtml;
+    const markdown = htmlToMarkdown(body);
+    if (markdown) {
+      sections.push(`[Section ${sections.length + 1}]\n\n${markdown}`);
+    }
+  }
+  return {
+    content: sections.join("\n\n"),
+    title: readXmlText(opf, "dc:title"),
+    byline: readXmlText(opf, "dc:creator"),
+    publishedTime: readXmlText(opf, "dc:date"),
+  };
+}
+
+// ============================================================================
+// Entry point
+// ============================================================================
+
+/** Converts a PDF, DOCX or EPUB body to Markdown with its metadata. */
+export async function convertDocument(
+  format: "pdf" | "docx" | "epub",
+  bytes: Uint8Array
+): Promise<ConvertedDocument> {
+  try {
+    switch (format) {
+      case "pdf":
+        return await convertPdf(bytes);
+      case "docx":
+        assertInflatedSize(bytes);
+        return await convertDocx(bytes);
+      case "epub":
+        assertInflatedSize(bytes);
+        return convertEpub(bytes);
+    }
+  } catch (e) {
+    throw new Error(
+      `Failed to extract text from ${format.toUpperCase()}: ${(e as Error).message}`
+    );
+  }
+}
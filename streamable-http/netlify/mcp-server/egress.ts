@@ -0,0 +1,445 @@
+/**
+ * Outbound proxy routing for every upstream request (search engines and
+ * web_fetch alike go through `egressFetch`).
+ *
+ * Each request is routed by the first matching rule, by engine id or target
+ * domain, to a named proxy pool or straight out ("direct"). Requests no rule
+ * matches use the "default" pool unless their host is listed in NO_PROXY.
+ * Pools are round-robin; a proxy that fails to connect `maxFailures` times
+ * in a row is ejected for `ejectMs`, and the request is retried on the next
+ * proxy of the pool.
+ *
+ * Environment:
+ *   EGRESS_PROXY   default pool, comma-separated proxy URLs (http://,
+ *                  https://, socks5://); falls back to HTTPS_PROXY,
+ *                  HTTP_PROXY or ALL_PROXY (either case)
+ *   EGRESS_POOLS   JSON object of named pools, e.g.
+ *                  {"ddg": ["socks5://10.0.0.2:1080", "socks5://10.0.0.3:1080"]}
+ *   EGRESS_RULES   JSON array of rules, first match wins, e.g.
+ *                  [{"engines": ["duckduckgo"], "pool": "ddg"},
+ *                   {"domains": ["intranet.example"], "pool": "direct"}]
+ *   NO_PROXY       hosts that bypass the default pool: example.com (with
+ *                  subdomains), .example.com, 10.0.0.0/8, host:port or *
+ *   EGRESS_PROXY_MAX_FAILURES   consecutive failures that eject a proxy
+ *                               (default 3)
+ *   EGRESS_PROXY_EJECT_SECONDS  how long an ejected proxy sits out
+ *                               (default 60)
+ */
+
+import { BlockList, isIP } from "node:net";
+import {
+  fetch as undiciFetch,
+  ProxyAgent,
+  Socks5ProxyAgent,
+  type Dispatcher,
+  type RequestInit as UndiciRequestInit,
+  type Response as UndiciResponse,
+} from "undici";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("egress");
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export interface EgressRule {
+  /** Engine ids, e.g. "duckduckgo"; matches that engine's requests. */
+  engines?: string[];
+  /** Matched like NO_PROXY entries against the request host. */
+  domains?: string[];
+  /** A pool name, or "direct" to bypass every proxy. */
+  pool: string;
+}
+
+export interface EgressConfig {
+  pools: Record<string, string[]>;
+  rules: EgressRule[];
+  noProxy: string[];
+  maxFailures: number;
+  ejectMs: number;
+}
+
+export const DIRECT = "direct";
+const DEFAULT_POOL = "default";
+
+function splitList(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(/[\s,]+/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function parseJsonEnv(name: string, value: string | undefined): unknown {
+  if (!value?.trim()) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch (e) {
+    throw new Error(`${name} is not valid JSON: ${(e as Error).message}`);
+  }
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === "string")
+  );
+}
+
+function parsePools(value: unknown): Record<string, string[]> {
+  if (value === undefined) return {};
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error("EGRESS_POOLS must be a JSON object of proxy URL arrays.");
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([name, proxies]) => {
+      if (!isStringArray(proxies) || proxies.length === 0) {
+        throw new Error(
+          `EGRESS_POOLS["${name}"] must be a non-empty array of proxy URLs.`
+        );
+      }
+      return [name, proxies];
+    })
+  );
+}
+
+function parseRules(value: unknown): EgressRule[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    throw new Error("EGRESS_RULES must be a JSON array of rules.");
+  }
+  return value.map((entry, i) => {
+    const { engines, domains, pool } = (entry ?? {}) as Record<string, unknown>;
+    if (typeof pool !== "string" || !pool) {
+      throw new Error(`EGRESS_RULES[${i}] needs a "pool" name or "direct".`);
+    }
+    if (engines !== undefined && !isStringArray(engines)) {
+      throw new Error(`EGRESS_RULES[${i}].engines must be an array of ids.`);
+    }
+    if (domains !== undefined && !isStringArray(domains)) {
+      throw new Error(`EGRESS_RULES[${i}].domains must be an array of hosts.`);
+    }
+    if (!engines && !domains) {
+      throw new Error(`EGRESS_RULES[${i}] needs "engines" or "domains".`);
+    }
+    return { engines, domains, pool };
+  });
+}
+
+export function loadEgressConfig(
+  env: Record<string, string | undefined> = process.env
+): EgressConfig {
+  const defaultProxies = splitList(
+    env.EGRESS_PROXY ||
+      env.HTTPS_PROXY ||
+      env.https_proxy ||
+      env.HTTP_PROXY ||
+      env.http_proxy ||
+      env.ALL_PROXY ||
+      env.all_proxy
+  );
+  const pools = parsePools(parseJsonEnv("EGRESS_POOLS", env.EGRESS_POOLS));
+  if (defaultProxies.length > 0) pools[DEFAULT_POOL] ??= defaultProxies;
+  const config: EgressConfig = {
+    pools,
+    rules: parseRules(parseJsonEnv("EGRESS_RULES", env.EGRESS_RULES)),
+    noProxy: splitList(env.NO_PROXY ?? env.no_proxy),
+    maxFailures: Math.max(1, Number(env.EGRESS_PROXY_MAX_FAILURES ?? 3) || 3),
+    ejectMs: Number(env.EGRESS_PROXY_EJECT_SECONDS ?? 60) * 1000 || 60_000,
+  };
+  validateEgressConfig(config);
+  return config;
+}
+
+function validateEgressConfig(config: EgressConfig): void {
+  for (const [name, proxies] of Object.entries(config.pools)) {
+    for (const proxy of proxies) getProxyProtocol(proxy, `pool "${name}"`);
+  }
+  for (const rule of config.rules) {
+    if (rule.pool !== DIRECT && !config.pools[rule.pool]) {
+      throw new Error(`Egress rule refers to unknown pool "${rule.pool}".`);
+    }
+  }
+}
+
+function getProxyProtocol(proxy: string, where: string): string {
+  let protocol: string;
+  try {
+    protocol = new URL(proxy).protocol;
+  } catch {
+    throw new Error(`Invalid proxy URL "${proxy}" in ${where}.`);
+  }
+  if (!["http:", "https:", "socks5:", "socks:"].includes(protocol)) {
+    throw new Error(
+      `Unsupported proxy protocol "${protocol}" in ${where}. Expected http://, https:// or socks5://.`
+    );
+  }
+  return protocol;
+}
+
+let config: EgressConfig | undefined;
+
+export function getEgressConfig(): EgressConfig {
+  config ??= loadEgressConfig();
+  return config;
+}
+
+/** Replaces the configuration, e.g. with a `--proxy` given on the command line. */
+export function setEgressConfig(next: EgressConfig): void {
+  validateEgressConfig(next);
+  config = next;
+  proxies.clear();
+}
+
+/** Routes unmatched requests through `proxyUrl` instead of the env default. */
+export function useDefaultProxy(proxyUrl: string): void {
+  const current = getEgressConfig();
+  setEgressConfig({
+    ...current,
+    pools: { ...current.pools, [DEFAULT_POOL]: [proxyUrl] },
+  });
+}
+
+// ============================================================================
+// Host matching
+// ============================================================================
+
+/**
+ * NO_PROXY semantics: "*" matches everything, "example.com" matches the
+ * host and its subdomains, ".example.com" only subdomains, an IP range
+ * matches literal addresses in it, and a ":port" suffix limits the entry to
+ * that port.
+ */
+export function matchesHostPattern(url: URL, pattern: string): boolean {
+  if (pattern === "*") return true;
+  const host = url.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  const port = url.port || (url.protocol === "https:" ? "443" : "80");
+
+  let entry = pattern.toLowerCase();
+  const portMatch = entry.match(/^(.*[^:]):(\d+)$/);
+  if (portMatch && !isIP(entry)) {
+    if (portMatch[2] !== port) return false;
+    entry = portMatch[1];
+  }
+  entry = entry.replace(/^\[|\]$/g, "");
+
+  const [range, prefix] = entry.split("/");
+  const family = isIP(range);
+  if (family) {
+    const hostFamily = isIP(host);
+    if (!hostFamily) return false;
+    if (prefix === undefined) return range === host;
+    const list = new BlockList();
+    const type = family === 4 ? "ipv4" : "ipv6";
+    list.addSubnet(range, Number(prefix), type);
+    return list.check(host, hostFamily === 4 ? "ipv4" : "ipv6");
+  }
+
+  if (entry.startsWith("*.")) entry = entry.slice(1);
+  if (entry.startsWith(".")) return host.endsWith(entry);
+  return host === entry || host.endsWith(`.${entry}`);
+}
+
+/** The pool a request goes through, or "direct". */
+export function selectPool(url: URL, engine?: string): string {
+  const { pools, rules, noProxy } = getEgressConfig();
+  const rule = rules.find(
+    (candidate) =>
+      (engine !== undefined && candidate.engines?.includes(engine)) ||
+      candidate.domains?.some((pattern) => matchesHostPattern(url, pattern))
+  );
+  if (rule) return rule.pool;
+  if (!pools[DEFAULT_POOL]) return DIRECT;
+  if (noProxy.some((pattern) => matchesHostPattern(url, pattern))) {
+    return DIRECT;
+  }
+  return DEFAULT_POOL;
+}
+
+// ============================================================================
+// Proxy pools
+// ============================================================================
+
+interface ProxyState {
+  url: string;
+  dispatcher: Dispatcher;
+  consecutiveFailures: number;
+  ejectedUntil: number;
+}
+
+const proxies = new Map<string, ProxyState>();
+const cursors = new Map<string, number>();
+
+function getProxy(url: string): ProxyState {
+  let proxy = proxies.get(url);
+  if (!proxy) {
+    const protocol = getProxyProtocol(url, "egress configuration");
+    proxy = {
+      url,
+      dispatcher: protocol.startsWith("socks")
+        ? new Socks5ProxyAgent(url)
+        : new ProxyAgent(url),
+      consecutiveFailures: 0,
+      ejectedUntil: 0,
+    };
+    proxies.set(url, proxy);
+  }
+  return proxy;
+}
+
+/** The proxy's host, without credentials, for logs. */
+function describeProxy(url: string): string {
+  const parsed = new URL(url);
+  return `${parsed.protocol}//${parsed.host}`;
+}
+
+/**
+ * The pool's proxies in the order to try them: round-robin from the pool's
+ * cursor, ejected proxies left out. When every proxy is ejected, the one
+ * coming back soonest is tried rather than failing outright.
+ */
+function getProxyOrder(pool: string): ProxyState[] {
+  const members = getEgressConfig().pools[pool].map(getProxy);
+  const start = cursors.get(pool) ?? 0;
+  cursors.set(pool, (start + 1) % members.length);
+  const rotated = [...members.slice(start), ...members.slice(0, start)];
+  const now = Date.now();
+  const available = rotated.filter((proxy) => proxy.ejectedUntil <= now);
+  if (available.length > 0) return available;
+  log.warning("every proxy in pool is ejected", { pool });
+  return [rotated.reduce((a, b) => (a.ejectedUntil <= b.ejectedUntil ? a : b))];
+}
+
+function recordProxyFailure(proxy: ProxyState, pool: string, error: unknown) {
+  proxy.consecutiveFailures++;
+  const { maxFailures, ejectMs } = getEgressConfig();
+  if (proxy.consecutiveFailures >= maxFailures) {
+    proxy.ejectedUntil = Date.now() + ejectMs;
+    proxy.consecutiveFailures = 0;
+    log.warning("proxy ejected", {
+      pool,
+      proxy: describeProxy(proxy.url),
+      ejectMs,
+      error,
+    });
+  }
+}
+
+function isAborted(init: RequestInit | undefined, e: unknown): boolean {
+  const name = (e as Error)?.name;
+  return (
+    !!init?.signal?.aborted || name === "AbortError" || name === "TimeoutError"
+  );
+}
+
+/**
+ * undici has its own Headers and Response classes, distinct from the ones
+ * bundled with Node, so requests and responses are copied across rather
+ * than cast.
+ */
+function toUndiciInit(init: RequestInit | undefined): UndiciRequestInit {
+  const body = init?.body;
+  if (body != null && typeof body !== "string") {
+    throw new Error("Only string request bodies can be sent through a proxy.");
+  }
+  return {
+    method: init?.method,
+    headers: [...new Headers(init?.headers)],
+    body,
+    redirect: init?.redirect,
+    signal: init?.signal,
+  };
+}
+
+/** The body as a global ReadableStream reading from undici's. */
+function toBodyStream(
+  body: UndiciResponse["body"]
+): ReadableStream<Uint8Array> | null {
+  if (!body) return null;
+  const reader = body.getReader();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) controller.close();
+      else controller.enqueue(value);
+    },
+    cancel: (reason) => reader.cancel(reason),
+  });
+}
+
+function toResponse(response: UndiciResponse): Response {
+  const converted = new Response(toBodyStream(response.body), {
+    status: response.status,
+    statusText: response.statusText,
+    headers: [...response.headers],
+  });
+  // Response.url can't be passed to the constructor; callers resolve
+  // relative links against it.
+  Object.defineProperty(converted, "url", { value: response.url });
+  return converted;
+}
+
+/**
+ * `fetch` routed through the configured egress. `engine` lets engine rules
+ * apply; web_fetch passes none and is routed by domain only.
+ */
+export async function egressFetch(
+  url: string,
+  init?: RequestInit,
+  engine?: string
+): Promise<Response> {
+  const pool = selectPool(new URL(url), engine);
+  if (pool === DIRECT) return fetch(url, init);
+
+  const proxyInit = toUndiciInit(init);
+  let lastError: unknown;
+  for (const proxy of getProxyOrder(pool)) {
+    try {
+      // Proxy dispatchers come from the undici package, so use its fetch
+      // rather than the copy bundled with Node.
+      const response = await undiciFetch(url, {
+        ...proxyInit,
+        dispatcher: proxy.dispatcher,
+      });
+      proxy.consecutiveFailures = 0;
+      return toResponse(response);
+    } catch (e) {
+      // A cancelled call says nothing about the proxy.
+      if (isAborted(init, e)) throw e;
+      lastError = e;
+      log.warning("proxy request failed", {
+        pool,
+        proxy: describeProxy(proxy.url),
+        error: e,
+      });
+      recordProxyFailure(proxy, pool, e);
+    }
+  }
+  throw lastError;
+}
+
+export interface ProxyHealth {
+  pool: string;
+  proxy: string;
+  consecutiveFailures: number;
+  ejectedUntil: string | null;
+}
+
+/** State of every proxy used so far, for /health. */
+export function getProxySnapshot(): ProxyHealth[] {
+  const now = Date.now();
+  const { pools } = getEgressConfig();
+  return Object.entries(pools).flatMap(([pool, urls]) =>
+    urls.map((url) => {
+      const proxy = proxies.get(url);
+      return {
+        pool,
+        proxy: describeProxy(url),
+        consecutiveFailures: proxy?.consecutiveFailures ?? 0,
+        ejectedUntil:
+          proxy && proxy.ejectedUntil > now
+            ? new Date(proxy.ejectedUntil).toISOString()
+            : null,
+      };
+    })
+  );
+}
@@ -0,0 +1,326 @@
+/**
+ * DOM-based main-content and metadata extraction for web_fetch.
+ *
+ * Runs Mozilla's Readability over a linkedom document: candidate blocks are
+ * scored by text density, comma count and class/id hints, penalised by link
+ * density, and the best subtree (with its siblings) is kept. Unlike the regex
+ * heuristic this handles nested containers and content inside <nav>/<aside>.
+ *
+ * `extractPageMetadata` reads the whole page instead: meta tags, OpenGraph
+ * and Twitter cards, JSON-LD and every link, resolved to absolute URLs.
+ *
+ * `selectHtml` cuts a page down to the elements matching a CSS selector or
+ * to the section under a heading.
+ */
+
+import { Readability } from "@mozilla/readability";
+import { parseHTML } from "linkedom";
+import { decodeHtmlEntities } from "./html.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("extract");
+
+export interface ExtractedArticle {
+  /** Main content as cleaned HTML, ready for Markdown conversion. */
+  html: string;
+  title: string | null;
+  byline: string | null;
+  /** Publish date as declared by the page, usually ISO 8601. */
+  publishedTime: string | null;
+}
+
+// Readability happily returns a cookie banner or teaser on pages without a
+// real article; anything shorter than this falls back to the heuristic.
+const MIN_ARTICLE_TEXT_LENGTH = 200;
+
+/**
+ * Returns the page's main article, or null when Readability finds nothing
+ * substantial and the caller should fall back to the heuristic extractor.
+ */
+export function extractArticle(
+  html: string,
+  url: string
+): ExtractedArticle | null {
+  try {
+    const { document } = parseHTML(html);
+    // linkedom has no navigation context; Readability resolves relative
+    // links and images against these.
+    Object.defineProperty(document, "baseURI", { value: url });
+    Object.defineProperty(document, "documentURI", { value: url });
+    const article = new Readability(document as unknown as Document).parse();
+    const textLength = article?.textContent?.trim().length ?? 0;
+    if (!article?.content || textLength < MIN_ARTICLE_TEXT_LENGTH) {
+      log.info("readability found no article", { url, textLength });
+      return null;
+    }
+    return {
+      html: article.content,
+      title: article.title?.trim() || null,
+      byline: article.byline?.trim() || null,
+      publishedTime: article.publishedTime?.trim() || null,
+    };
+  } catch (e) {
+    log.error("readability failed", { url, error: e });
+    return null;
+  }
+}
+
+function findMetaContent(html: string, names: string[]): string | null {
+  for (const name of names) {
+    const pattern = new RegExp(
+      `<meta[^>]+(?:name|property|itemprop)=["']${name}["'][^>]*>`,
+      "i"
+    );
+    const tag = html.match(pattern)?.[0];
+    const content = tag?.match(/content=["']([^"']*)["']/i)?.[1];
+    if (content) return decodeHtmlEntities(content).trim();
+  }
+  return null;
+}
+
+/**
+ * Title, byline and publish date from <title> and common meta tags, for the
+ * heuristic extractor and raw HTML where Readability doesn't run.
+ */
+export function extractBasicMetadata(
+  html: string
+): Omit<ExtractedArticle, "html"> {
+  const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  return {
+    title:
+      findMetaContent(html, ["og:title", "twitter:title"]) ??
+      (title ? decodeHtmlEntities(title.replace(/\s+/g, " ")).trim() : null),
+    byline: findMetaContent(html, ["author", "article:author"]),
+    publishedTime: findMetaContent(html, [
+      "article:published_time",
+      "datePublished",
+      "date",
+      "pubdate",
+    ]),
+  };
+}
+
+// ============================================================================
+// Page metadata
+// ============================================================================
+
+export interface PageLink {
+  /** Absolute http(s) URL without its fragment. */
+  url: string;
+  /** Anchor text, or the title / image alt text of an icon link. */
+  text: string;
+}
+
+export interface PageMetadata {
+  /** The document's <title>, which may differ from the article title. */
+  title: string | null;
+  canonicalUrl: string | null;
+  description: string | null;
+  language: string | null;
+  /** Last-Modified header, else the modified time the page declares. */
+  lastModified: string | null;
+  /** og:* properties without the prefix, e.g. { title, image, type }. */
+  openGraph: Record<string, string>;
+  /** twitter:* properties without the prefix, e.g. { card, site }. */
+  twitter: Record<string, string>;
+  /** Every parseable application/ld+json block; top-level arrays flattened. */
+  jsonLd: unknown[];
+  /** Unique links in document order. */
+  links: PageLink[];
+}
+
+// Link farms and sitemaps-as-HTML would otherwise bloat every response.
+const MAX_PAGE_LINKS = 1000;
+
+function resolveUrl(href: string, base: string): string | null {
+  try {
+    const url = new URL(href.trim(), base);
+    if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+    url.hash = "";
+    return url.href;
+  } catch {
+    return null;
+  }
+}
+
+function collapseWhitespace(text: string | null | undefined): string {
+  return (text ?? "").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Metadata and links of an HTML page. `url` is the final URL after
+ * redirects; relative URLs resolve against it or the page's <base href>.
+ */
+export function extractPageMetadata(
+  html: string,
+  url: string,
+  headers?: Headers
+): PageMetadata {
+  const { document } = parseHTML(html);
+  const baseHref = document.querySelector("base[href]")?.getAttribute("href");
+  const base = (baseHref && resolveUrl(baseHref, url)) || url;
+
+  const meta = new Map<string, string>();
+  for (const tag of document.querySelectorAll("meta[content]")) {
+    const key = (
+      tag.getAttribute("property") ??
+      tag.getAttribute("name") ??
+      tag.getAttribute("itemprop") ??
+      tag.getAttribute("http-equiv") ??
+      ""
+    ).toLowerCase();
+    const content = collapseWhitespace(tag.getAttribute("content"));
+    // Repeated tags like og:image list the preferred value first.
+    if (key && content && !meta.has(key)) meta.set(key, content);
+  }
+  const prefixed = (prefix: string) =>
+    Object.fromEntries(
+      [...meta]
+        .filter(([key]) => key.startsWith(prefix))
+        .map(([key, value]) => [key.slice(prefix.length), value])
+    );
+
+  const jsonLd: unknown[] = [];
+  for (const script of document.querySelectorAll(
+    'script[type="application/ld+json"]'
+  )) {
+    try {
+      const value: unknown = JSON.parse(script.textContent ?? "");
+      jsonLd.push(...(Array.isArray(value) ? value : [value]));
+    } catch {
+      // Broken JSON-LD is common and not worth failing the fetch over.
+    }
+  }
+  const jsonLdModified = jsonLd
+    .map((item) => (item as { dateModified?: unknown } | null)?.dateModified)
+    .find((value): value is string => typeof value === "string");
+
+  const links: PageLink[] = [];
+  const seen = new Set<string>();
+  for (const anchor of document.querySelectorAll("a[href]")) {
+    const href = anchor.getAttribute("href") ?? "";
+    // In-page anchors point back at this document.
+    if (href.trim().startsWith("#")) continue;
+    const link = resolveUrl(href, base);
+    if (!link || seen.has(link)) continue;
+    seen.add(link);
+    const image = anchor.querySelector("img[alt]");
+    links.push({
+      url: link,
+      text:
+        collapseWhitespace(anchor.textContent) ||
+        collapseWhitespace(anchor.getAttribute("title")) ||
+        collapseWhitespace(image?.getAttribute("alt")),
+    });
+    if (links.length >= MAX_PAGE_LINKS) break;
+  }
+
+  const title = collapseWhitespace(document.querySelector("title")?.textContent);
+  const canonical = document
+    .querySelector('link[rel~="canonical"][href]')
+    ?.getAttribute("href");
+  return {
+    title: title || null,
+    canonicalUrl: (canonical && resolveUrl(canonical, base)) || null,
+    description:
+      meta.get("description") ??
+      meta.get("og:description") ??
+      meta.get("twitter:description") ??
+      null,
+    language:
+      document.documentElement?.getAttribute("lang")?.trim() ||
+      meta.get("content-language") ||
+      headers?.get("content-language") ||
+      null,
+    lastModified:
+      headers?.get("last-modified") ??
+      meta.get("article:modified_time") ??
+      meta.get("og:updated_time") ??
+      meta.get("datemodified") ??
+      jsonLdModified ??
+      null,
+    openGraph: prefixed("og:"),
+    twitter: prefixed("twitter:"),
+    jsonLd,
+    links,
+  };
+}
+
+// ============================================================================
+// Section selection
+// ============================================================================
+
+const HEADING_SELECTOR = "h1, h2, h3, h4, h5, h6";
+
+function getHeadingLevel(element: Element): number {
+  const match = /^H([1-6])$/i.exec(element.tagName);
+  return match ? Number(match[1]) : 0;
+}
+
+/**
+ * The heading whose text is `text` (ignoring case and spacing), else the
+ * first one containing it, with everything after it up to the next heading
+ * of the same or a higher level.
+ */
+function selectSection(document: Document, text: string): string | null {
+  const wanted = collapseWhitespace(text).toLowerCase();
+  if (!wanted) return null;
+  const headings = Array.from(document.querySelectorAll(HEADING_SELECTOR));
+  const headingText = (heading: Element) =>
+    collapseWhitespace(heading.textContent).toLowerCase();
+  const heading =
+    headings.find((h) => headingText(h) === wanted) ??
+    headings.find((h) => headingText(h).includes(wanted));
+  if (!heading) return null;
+
+  const level = getHeadingLevel(heading);
+  // Headings are often wrapped with their anchor link in a <div> or
+  // <header>; the section continues after the wrapper.
+  let start: Element = heading;
+  while (
+    start.parentElement &&
+    !/^(BODY|HTML)$/i.test(start.parentElement.tagName) &&
+    collapseWhitespace(start.parentElement.textContent) ===
+      collapseWhitespace(heading.textContent)
+  ) {
+    start = start.parentElement;
+  }
+  const parts = [heading.outerHTML];
+  for (
+    let sibling = start.nextElementSibling;
+    sibling;
+    sibling = sibling.nextElementSibling
+  ) {
+    const levels = [
+      sibling,
+      ...Array.from(sibling.querySelectorAll(HEADING_SELECTOR)),
+    ].map(getHeadingLevel);
+    if (levels.some((l) => l > 0 && l <= level)) break;
+    parts.push(sibling.outerHTML);
+  }
+  return parts.join("\n");
+}
+
+/**
+ * The part of a page picked by `selector`: every element matching it as a
+ * CSS selector, or when nothing does (or it isn't valid CSS), the section
+ * under the heading with that text. Null when neither matches.
+ */
+export function selectHtml(html: string, selector: string): string | null {
+  const { document } = parseHTML(html);
+  let matches: Element[] = [];
+  try {
+    matches = Array.from(document.querySelectorAll(selector));
+  } catch {
+    // Not CSS, e.g. "Getting started?"; try it as heading text.
+  }
+  // Matches nested in other matches are already part of their outerHTML.
+  const outermost = matches.filter(
+    (element) =>
+      !matches.some((other) => other !== element && other.contains(element))
+  );
+  if (outermost.length > 0) {
+    return outermost.map((element) => element.outerHTML).join("\n");
+  }
+  return selectSection(document as unknown as Document, selector);
+}
@@ -0,0 +1,213 @@
+/**
+ * Health tracking for search engines and DuckDuckGo mirrors.
+ *
+ * Every attempt is recorded as success, captcha, empty or error together
+ * with its latency. Consecutive captcha/error outcomes open a circuit
+ * breaker: the target is skipped until its cooldown ends, then a single
+ * trial call decides whether it closes again or reopens with a doubled
+ * cooldown. Callers claim each attempt with tryAcquireTarget, so concurrent
+ * calls stay short-circuited while the trial call is in flight. Empty
+ * results don't count against a target, since a query can legitimately have
+ * no hits.
+ *
+ * State is per instance, like the memory cache; a cold start begins with
+ * every breaker closed.
+ */
+
+import { createLogger } from "./logger.js";
+
+const log = createLogger("health");
+
+export type HealthOutcome = "success" | "captcha" | "empty" | "error";
+
+export type BreakerState = "closed" | "open" | "half-open";
+
+export interface TargetHealth {
+  /** An engine id such as "brave", or "duckduckgo/<mirror host>". */
+  target: string;
+  state: BreakerState;
+  counts: Record<HealthOutcome, number>;
+  consecutiveFailures: number;
+  lastOutcome: HealthOutcome | null;
+  /** Exponentially weighted average over recent attempts. */
+  avgLatencyMs: number | null;
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  /** When an open breaker allows its next trial call. */
+  openUntil: string | null;
+}
+
+// Consecutive failures that open a breaker.
+const FAILURE_THRESHOLD = 3;
+const BASE_COOLDOWN_MS = 30 * 1000;
+const MAX_COOLDOWN_MS = 10 * 60 * 1000;
+// Weight of the newest sample in the latency average.
+const LATENCY_SMOOTHING = 0.3;
+
+interface HealthRecord {
+  counts: Record<HealthOutcome, number>;
+  consecutiveFailures: number;
+  lastOutcome: HealthOutcome | null;
+  avgLatencyMs: number | null;
+  lastSuccessAt: number;
+  lastFailureAt: number;
+  openUntil: number;
+  cooldownMs: number;
+  /** A half-open breaker's trial call is in flight. */
+  probing: boolean;
+}
+
+const records = new Map<string, HealthRecord>();
+
+function getRecord(target: string): HealthRecord {
+  let record = records.get(target);
+  if (!record) {
+    record = {
+      counts: { success: 0, captcha: 0, empty: 0, error: 0 },
+      consecutiveFailures: 0,
+      lastOutcome: null,
+      avgLatencyMs: null,
+      lastSuccessAt: 0,
+      lastFailureAt: 0,
+      openUntil: 0,
+      cooldownMs: BASE_COOLDOWN_MS,
+      probing: false,
+    };
+    records.set(target, record);
+  }
+  return record;
+}
+
+function getState(record: HealthRecord, now: number): BreakerState {
+  if (record.consecutiveFailures < FAILURE_THRESHOLD) return "closed";
+  return now < record.openUntil ? "open" : "half-open";
+}
+
+export function recordOutcome(
+  target: string,
+  outcome: HealthOutcome,
+  latencyMs: number
+): void {
+  const now = Date.now();
+  const record = getRecord(target);
+  const previous = getState(record, now);
+
+  record.probing = false;
+  record.counts[outcome]++;
+  record.lastOutcome = outcome;
+  record.avgLatencyMs =
+    record.avgLatencyMs === null
+      ? latencyMs
+      : Math.round(
+          record.avgLatencyMs * (1 - LATENCY_SMOOTHING) +
+            latencyMs * LATENCY_SMOOTHING
+        );
+
+  if (outcome === "success" || outcome === "empty") {
+    if (outcome === "success") record.lastSuccessAt = now;
+    if (previous !== "closed") {
+      log.warning("circuit closed", { target });
+    }
+    record.consecutiveFailures = 0;
+    record.cooldownMs = BASE_COOLDOWN_MS;
+    return;
+  }
+
+  record.lastFailureAt = now;
+  record.consecutiveFailures++;
+  if (previous === "half-open") {
+    // The trial call failed: back off harder before the next one.
+    record.cooldownMs = Math.min(record.cooldownMs * 2, MAX_COOLDOWN_MS);
+  }
+  if (previous !== "open" && record.consecutiveFailures >= FAILURE_THRESHOLD) {
+    record.openUntil = now + record.cooldownMs;
+    log.warning("circuit opened", {
+      target,
+      outcome,
+      consecutiveFailures: record.consecutiveFailures,
+      cooldownMs: record.cooldownMs,
+    });
+  }
+}
+
+/**
+ * False while the target's breaker is open and cooling down, or half-open
+ * with its trial call in flight.
+ */
+export function isTargetAvailable(target: string): boolean {
+  const record = records.get(target);
+  if (!record) return true;
+  const state = getState(record, Date.now());
+  return state === "closed" || (state === "half-open" && !record.probing);
+}
+
+/**
+ * Claims an attempt on `target`. Always succeeds while its breaker is
+ * closed; once half-open, only the first caller gets through, and holds the
+ * trial until its outcome is recorded or it calls releaseTarget.
+ */
+export function tryAcquireTarget(target: string): boolean {
+  if (!isTargetAvailable(target)) return false;
+  const record = records.get(target);
+  if (record && getState(record, Date.now()) === "half-open") {
+    record.probing = true;
+  }
+  return true;
+}
+
+/** Gives up a claim whose call ended without an outcome, e.g. cancelled. */
+export function releaseTarget(target: string): void {
+  const record = records.get(target);
+  if (record) record.probing = false;
+}
+
+/**
+ * Available targets, healthiest first: closed breakers before half-open
+ * ones, then fewest recent failures, most recent success and lowest
+ * latency. Targets with equal health keep their given order.
+ */
+export function rankTargets(targets: string[]): string[] {
+  const now = Date.now();
+  const score = (target: string) => {
+    const record = records.get(target);
+    return {
+      halfOpen: record && getState(record, now) === "half-open" ? 1 : 0,
+      failures: record?.consecutiveFailures ?? 0,
+      lastSuccessAt: record?.lastSuccessAt ?? 0,
+      latency: record?.avgLatencyMs ?? Infinity,
+    };
+  };
+  return targets
+    .filter(isTargetAvailable)
+    .map((target, index) => ({ target, index, ...score(target) }))
+    .sort(
+      (a, b) =>
+        a.halfOpen - b.halfOpen ||
+        a.failures - b.failures ||
+        b.lastSuccessAt - a.lastSuccessAt ||
+        a.latency - b.latency ||
+        a.index - b.index
+    )
+    .map(({ target }) => target);
+}
+
+export function getHealthSnapshot(): TargetHealth[] {
+  const now = Date.now();
+  const toIso = (time: number) => (time ? new Date(time).toISOString() : null);
+  return [...records.entries()]
+    .map(([target, record]) => {
+      const state = getState(record, now);
+      return {
+        target,
+        state,
+        counts: { ...record.counts },
+        consecutiveFailures: record.consecutiveFailures,
+        lastOutcome: record.lastOutcome,
+        avgLatencyMs: record.avgLatencyMs,
+        lastSuccessAt: toIso(record.lastSuccessAt),
+        lastFailureAt: toIso(record.lastFailureAt),
+        openUntil: state === "open" ? toIso(record.openUntil) : null,
+      };
+    })
+    .sort((a, b) => a.target.localeCompare(b.target));
+}
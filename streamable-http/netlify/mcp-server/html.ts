@@ -0,0 +1,24 @@
+/**
+ * Small regex-based HTML helpers shared by the search parsers and the
+ * web_fetch pipeline.
+ */
+
+export function decodeHtmlEntities(text: string): string {
+  return text
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#x27;/g, "'")
+    .replace(/&#39;/g, "'")
+    .replace(/&apos;/g, "'")
+    .replace(/&(?:nbsp|ensp|emsp|thinsp);/g, " ")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-fA-F]+);/g, (_, hex) =>
+      String.fromCharCode(parseInt(hex, 16))
+    );
+}
+
+export function stripHtml(html: string): string {
+  return decodeHtmlEntities(html.replace(/<[^>]+>/g, "")).trim();
+}
@@ -1,167 +1,387 @@
 /**
  * ORZ MCP Server - Web Search & Fetch MCP Tool (Netlify Functions)
  *
- * MCP server setup with web_search and web_fetch tools.
- * - web_search: Brave, DuckDuckGo simultaneous search with dedup
- * - web_fetch: Fetch web page content, optionally simplified to Markdown
+ * MCP server setup with web_search, web_fetch, web_fetch_many, web_research
+ * and web_crawl tools.
+ * - web_search: pluggable search engines (Brave, DuckDuckGo, Bing, Mojeek,
+ *   SearXNG) queried simultaneously with dedup
+ * - web_fetch: Fetch web page content as Markdown, text, HTML or JSON blocks,
+ *   optionally only its main content or one selected section
+ * - web_fetch_many: web_fetch over a list of URLs with bounded concurrency
+ * - web_research: search, read the top pages and return the passages that
+ *   rank best for the query (BM25)
+ * - web_crawl: breadth-first crawl of one site, seeded from its sitemap
  */
 
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import TurndownService from "turndown";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  SetLevelRequestSchema,
+  type ServerNotification,
+  type ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import { createHash, randomBytes } from "node:crypto";
+import { blocksToText, htmlToBlocks, type ContentBlock } from "./blocks.js";
+import { withCache } from "./cache.js";
+import { decodeBody, readResponseText } from "./charset.js";
+import { getConfig, setConfig, type ServerConfig } from "./config.js";
+import {
+  convertDocument,
+  detectDocumentFormat,
+  type DocumentFormat,
+} from "./documents.js";
+import { egressFetch } from "./egress.js";
+import {
+  extractArticle,
+  extractBasicMetadata,
+  extractPageMetadata,
+  selectHtml,
+  type PageLink,
+  type PageMetadata,
+} from "./extract.js";
+import {
+  rankTargets,
+  recordOutcome,
+  releaseTarget,
+  tryAcquireTarget,
+  type HealthOutcome,
+} from "./health.js";
+import { decodeHtmlEntities, stripHtml } from "./html.js";
+import {
+  createLogger,
+  DEFAULT_LOG_LEVEL,
+  isLevelEnabled,
+  runWithLogContext,
+  type LoggingLevel,
+} from "./logger.js";
+import { htmlToMarkdown } from "./markdown.js";
+import {
+  duckDuckGoAttempts,
+  duckDuckGoFallbacks,
+  engineResults,
+  engineSearches,
+  toolCallDuration,
+  toolCalls,
+  upstreamResponses,
+} from "./metrics.js";
+import { findChunkEnd, scoreBm25, splitPassages } from "./passages.js";
+import { parseSitemap } from "./sitemap.js";
+import { fetchWithUrlPolicy } from "./url-policy.js";
 
 // ============================================================================
 // Constants & Config
 // ============================================================================
 
-const DUCKDUCKGO_HTML_SEARCH_URL = "https://html.duckduckgo.com/html/";
-const DUCKDUCKGO_FALLBACK_SEARCH_URLS = [
-  "https://spin-ddg-proxy-idmlnajw.fermyon.app/",
-  "https://ddg-368306689698.europe-west1.run.app/",
-  "https://olg3d54tkkk5gv452mz42sdu6a0xzlsu.lambda-url.us-east-1.on.aws/",
-  "https://ddg.workers.rocks/",
-  "https://ddg2.workers.rocks/",
-];
-
-const mockHeaders = {
-    'User-Agent':
-        'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/122.0.0.0 Safari/537.36',
-    'Accept':
-        'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8',
-    'Accept-Language': 'en-US,en;q=0.9',
-    'Accept-Encoding': 'gzip, deflate, br',
-    'Cache-Control': 'no-cache',
-    'Pragma': 'no-cache',
-    'Referer': 'https://duckduckgo.com/',
-    'Origin': 'https://duckduckgo.com',
-    'Upgrade-Insecure-Requests': '1',
-    'DNT': '1',
-    'Cookie': 'kl=us-en',
-    'Sec-Fetch-Dest': 'document',
-    'Sec-Fetch-Mode': 'navigate',
-    'Sec-Fetch-Site': 'same-origin',
-    'Sec-Fetch-User': '?1',
-    'sec-ch-ua':
-        '"Chromium";v="122", "Not(A:Brand";v="24", "Google Chrome";v="122"',
-    'sec-ch-ua-mobile': '?0',
-    'sec-ch-ua-platform': '"macOS"',
-};
+// Endpoints, timeouts, headers and filters come from the server config (see
+// ./config.ts) and are read per request, so setupMCPServer options apply.
+
+const serverLog = createLogger("server");
+const fetchLog = createLogger("fetch");
+const searchLog = createLogger("web_search");
+const fetchToolLog = createLogger("web_fetch");
+const researchLog = createLogger("web_research");
+const crawlLog = createLogger("web_crawl");
+const braveLog = createLogger("brave");
+const duckDuckGoLog = createLogger("duckduckgo");
+const bingLog = createLogger("bing");
+const mojeekLog = createLogger("mojeek");
+const searxngLog = createLogger("searxng");
 
 function getBrowserHeaders(): Record<string, string> {
-  return mockHeaders;
+  return getConfig().headers;
+}
+
+/**
+ * Browser headers localized for a search: `Accept-Language` follows the
+ * requested language and region. Engines take the region itself through
+ * their own params or cookies. Without options this is identical to
+ * `getBrowserHeaders()`.
+ */
+function getSearchHeaders(options: SearchOptions): Record<string, string> {
+  if (!options.region && !options.language) return getBrowserHeaders();
+  const language = options.language ?? "en";
+  const locale = options.region
+    ? `${language}-${options.region.toUpperCase()}`
+    : language;
+  return {
+    ...getBrowserHeaders(),
+    "Accept-Language":
+      language === "en"
+        ? `${locale},en;q=0.9`
+        : `${locale},${language};q=0.9,en;q=0.8`,
+  };
 }
 
 function getElapsedMs(startTime: number): number {
   return Date.now() - startTime;
 }
 
+/**
+ * Every upstream request goes through here: timed, logged, counted in the
+ * metrics and routed by the egress rules. `engine` is the id engine rules
+ * match on.
+ */
 async function timedFetch(
   label: string,
   url: string,
-  init?: RequestInit
+  init?: RequestInit,
+  engine?: string
 ): Promise<Response> {
   const startTime = Date.now();
   try {
-    const response = await fetch(url, init);
-    console.log(
-      `[fetch] ${label} completed in ${getElapsedMs(startTime)}ms (${response.status}) url="${url}"`
-    );
+    const response = await egressFetch(url, init, engine);
+    upstreamResponses.inc({ upstream: label, status: String(response.status) });
+    fetchLog.info(`${label} completed`, {
+      url,
+      status: response.status,
+      elapsedMs: getElapsedMs(startTime),
+    });
     return response;
   } catch (e) {
-    console.error(
-      `[fetch] ${label} failed in ${getElapsedMs(startTime)}ms url="${url}": ${(e as Error).message}`
-    );
+    upstreamResponses.inc({
+      upstream: label,
+      status: isAbortError(e) ? "aborted" : "error",
+    });
+    fetchLog.warning(`${label} failed`, {
+      url,
+      elapsedMs: getElapsedMs(startTime),
+      error: e,
+    });
     throw e;
   }
 }
 
+// ============================================================================
+// Call context
+// ============================================================================
+
+/** Cancellation and progress reporting for one tool call. */
+export interface CallContext {
+  /** Aborted when the client cancels the call or its timeout_ms elapses. */
+  signal?: AbortSignal;
+  /** The caller's timeout_ms, if any; `signal` already enforces it. */
+  timeoutMs?: number;
+  /** Reports a finished stage, e.g. one engine or one fetch step. */
+  onProgress?: (message: string) => void;
+}
+
+/** A per-request timeout that also fires when the call is cancelled. */
+function getUpstreamSignal(
+  context: CallContext,
+  timeoutMs: number = getConfig().timeouts.upstreamMs
+): AbortSignal {
+  const timeout = AbortSignal.timeout(timeoutMs);
+  return context.signal ? AbortSignal.any([timeout, context.signal]) : timeout;
+}
+
+/** Waits `ms`, or less if `signal` aborts first. */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
+
+function isAbortError(e: unknown): boolean {
+  const name = (e as Error)?.name;
+  return name === "AbortError" || name === "TimeoutError";
+}
+
+/** Explains why the call's signal fired. */
+function getAbortMessage(context: CallContext, action: string): string {
+  const timedOut = (context.signal?.reason as Error)?.name === "TimeoutError";
+  return timedOut
+    ? `${action} timed out after ${context.timeoutMs}ms (timeout_ms).`
+    : `${action} was cancelled.`;
+}
+
 // ============================================================================
 // Search result types
 // ============================================================================
 
-interface SearchItem {
+/** A single hit as parsed from one engine's result page. */
+interface EngineResult {
   url: string;
   title: string;
   summary: string;
 }
 
+/** One page of an engine's results plus where to continue from. */
+interface EnginePage {
+  results: EngineResult[];
+  /** Opaque engine-specific token for the next page; absent when exhausted. */
+  nextPageToken?: string;
+  /** Set when the engine failed, as opposed to finding nothing. */
+  failure?: "captcha" | "error";
+}
+
+/** A merged hit, scored with reciprocal rank fusion across engines. */
+interface SearchItem extends EngineResult {
+  /** Ids of the engines that returned this URL, best-ranked first. */
+  engines: string[];
+  /** 1-based position in the merged result list. */
+  rank: number;
+  /** Reciprocal-rank-fusion score summed over all engines. */
+  score: number;
+}
+
 const searchItemSchema = z.object({
   url: z.string(),
   title: z.string(),
   summary: z.string(),
+  engines: z.array(z.string()),
+  rank: z.number(),
+  score: z.number(),
 });
 
 // ============================================================================
-// HTML entity decoding
+// Search filters
 // ============================================================================
 
-function decodeHtmlEntities(text: string): string {
-  return text
-    .replace(/&amp;/g, "&")
-    .replace(/&lt;/g, "<")
-    .replace(/&gt;/g, ">")
-    .replace(/&quot;/g, '"')
-    .replace(/&#x27;/g, "'")
-    .replace(/&#39;/g, "'")
-    .replace(/&apos;/g, "'")
-    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
-    .replace(/&#x([0-9a-fA-F]+);/g, (_, hex) =>
-      String.fromCharCode(parseInt(hex, 16))
-    );
+type TimeRange = "day" | "week" | "month" | "year";
+type SafeSearch = "off" | "moderate" | "strict";
+
+/** Filters passed through to every engine; each maps them to native params. */
+interface SearchOptions {
+  includeDomains?: string[];
+  excludeDomains?: string[];
+  timeRange?: TimeRange;
+  /** ISO 3166-1 alpha-2 country code, lowercase, e.g. "cn". */
+  region?: string;
+  /** ISO 639-1 language code, lowercase, e.g. "zh". */
+  language?: string;
+  safeSearch?: SafeSearch;
+}
+
+// DuckDuckGo's `kl` codes pair a region with its main language and don't
+// follow ISO 639 for every locale; unknown regions fall back to English.
+const DUCKDUCKGO_REGION_LANGUAGES: Record<string, string> = {
+  cn: "zh",
+  tw: "tzh",
+  hk: "tzh",
+  jp: "jp",
+  kr: "kr",
+  de: "de",
+  fr: "fr",
+  es: "es",
+  it: "it",
+  ru: "ru",
+  br: "pt",
+  pt: "pt",
+  nl: "nl",
+};
+
+function toDuckDuckGoRegion(options: SearchOptions): string {
+  if (!options.region) {
+    return options.language && options.language !== "en" ? "wt-wt" : "us-en";
+  }
+  const region = options.region.toLowerCase();
+  return `${region}-${DUCKDUCKGO_REGION_LANGUAGES[region] ?? "en"}`;
+}
+
+function normalizeDomain(domain: string): string {
+  return domain
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, "")
+    .replace(/\/.*$/, "")
+    .replace(/^www\./, "");
+}
+
+function hostMatchesDomain(host: string, domain: string): boolean {
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+/**
+ * Post-merge fallback for engines that ignore or only partially honour the
+ * `site:` operators added by `buildFilteredQuery`.
+ */
+function matchesDomainFilters(url: string, options: SearchOptions): boolean {
+  const include = (options.includeDomains ?? []).map(normalizeDomain);
+  const exclude = (options.excludeDomains ?? []).map(normalizeDomain);
+  if (include.length === 0 && exclude.length === 0) return true;
+  let host: string;
+  try {
+    host = new URL(url).hostname.toLowerCase().replace(/^www\./, "");
+  } catch {
+    return false;
+  }
+  if (exclude.some((domain) => hostMatchesDomain(host, domain))) return false;
+  return (
+    include.length === 0 ||
+    include.some((domain) => hostMatchesDomain(host, domain))
+  );
 }
 
-function stripHtml(html: string): string {
-  return decodeHtmlEntities(html.replace(/<[^>]+>/g, "")).trim();
+/**
+ * Appends `site:`/`-site:` operators. Multiple included domains are OR-ed,
+ * which Brave, Bing and SearXNG understand; DuckDuckGo only honours the
+ * first, so the merge-time filter catches the rest.
+ */
+function buildFilteredQuery(query: string, options: SearchOptions): string {
+  const include = (options.includeDomains ?? []).map(normalizeDomain);
+  const exclude = (options.excludeDomains ?? []).map(normalizeDomain);
+  const parts = [query];
+  if (include.length === 1) {
+    parts.push(`site:${include[0]}`);
+  } else if (include.length > 1) {
+    parts.push(`(${include.map((domain) => `site:${domain}`).join(" OR ")})`);
+  }
+  for (const domain of exclude) {
+    parts.push(`-site:${domain}`);
+  }
+  return parts.filter(Boolean).join(" ");
 }
 
-function isDuckDuckGoCaptchaHtml(html: string): boolean {
+// ============================================================================
+// Captcha detection
+// ============================================================================
+
+export function isDuckDuckGoCaptchaHtml(html: string): boolean {
   return (
     html.includes("anomaly-modal") ||
     html.includes("Please complete the following challenge")
   );
 }
 
+/**
+ * Brave answers suspected bots with a 200 challenge page instead of results,
+ * which would otherwise pass for a query without hits.
+ */
+export function isBraveChallengeHtml(html: string): boolean {
+  return !html.includes('data-type="web"') && /captcha/i.test(html);
+}
+
 // ============================================================================
 // Ad filtering
 // ============================================================================
 
+// Compiled once per config object.
+let adPatternCache: { source: string[]; patterns: RegExp[] } | undefined;
+
 function isAdUrl(url: string): boolean {
-  const adPatterns = [
-    /googleads\./i,
-    /doubleclick\./i,
-    /googlesyndication\./i,
-    /googleadservices\./i,
-    /adclick\./i,
-    /adsense\./i,
-    /adservice\./i,
-    /adserver\./i,
-    /clickserve\./i,
-    /clicktrack\./i,
-    /baidu\.com\/aclick/i,
-    /pos\.baidu\.com/i,
-    /cpro\.baidu\.com/i,
-    /e\.baidu\.com/i,
-    /bingads\./i,
-    /microsoftadvertising\./i,
-    /ad_provider=/i,
-    /ad_domain=/i,
-    /\/ads?\//i,
-    /\/advert/i,
-    /\/sponsor/i,
-    /\/promo\//i,
-    /\/click\?/i,
-    /\/aclk\?/i,
-    /\/pagead\//i,
-  ];
-  return adPatterns.some((p) => p.test(url));
+  const { adPatterns } = getConfig().filters;
+  if (adPatternCache?.source !== adPatterns) {
+    adPatternCache = {
+      source: adPatterns,
+      patterns: adPatterns.map((pattern) => new RegExp(pattern, "i")),
+    };
+  }
+  return adPatternCache.patterns.some((p) => p.test(url));
 }
 
 // ============================================================================
 // Search engine parsers
 // ============================================================================
 
-function parseBrave(html: string): SearchItem[] {
-  const results: SearchItem[] = [];
+export function parseBrave(html: string): EngineResult[] {
+  const results: EngineResult[] = [];
   const blocks = html.split('data-type="web"');
   for (let i = 1; i < blocks.length; i++) {
     const block = blocks[i].substring(0, 5000);
@@ -196,10 +416,10 @@ function parseBrave(html: string): SearchItem[] {
   return results;
 }
 
-function parseDuckDuckGo(html: string): SearchItem[] {
-  const results: SearchItem[] = [];
+export function parseDuckDuckGo(html: string): EngineResult[] {
+  const results: EngineResult[] = [];
   if (isDuckDuckGoCaptchaHtml(html)) {
-    console.log("[DuckDuckGo] Got captcha page, skipping");
+    duckDuckGoLog.info("Got captcha page, skipping");
     return results;
   }
   const linkRegex =
@@ -241,108 +461,668 @@ function parseDuckDuckGo(html: string): SearchItem[] {
   return results;
 }
 
+/**
+ * DuckDuckGo's HTML endpoint paginates with a "Next" form whose hidden `s`
+ * (result offset) and `dc` fields must be echoed back. Returns them as an
+ * "s:dc" page token, or undefined on the last page.
+ */
+export function parseDuckDuckGoNextPage(html: string): string | undefined {
+  const forms = html.match(/<form[^>]*>[\s\S]*?<\/form>/gi) ?? [];
+  const nextForm = forms.find((form) => /value="Next"/i.test(form));
+  if (!nextForm) return undefined;
+  const start = nextForm.match(/name="s"[^>]*value="(\d+)"/)?.[1];
+  const cursor = nextForm.match(/name="dc"[^>]*value="(\d+)"/)?.[1];
+  if (!start) return undefined;
+  return `${start}:${cursor ?? Number(start) + 1}`;
+}
+
+export function parseBing(html: string): EngineResult[] {
+  const results: EngineResult[] = [];
+  const blocks = html.split(/<li[^>]*class="[^"]*\bb_algo\b[^"]*"/);
+  for (let i = 1; i < blocks.length; i++) {
+    const block = blocks[i].substring(0, 5000);
+    const linkMatch = block.match(
+      /<h2[^>]*>\s*<a[^>]+href="([^"]+)"[^>]*>([\s\S]*?)<\/a>/
+    );
+    if (!linkMatch) continue;
+    const url = decodeBingUrl(decodeHtmlEntities(linkMatch[1]));
+    const title = stripHtml(linkMatch[2]);
+    let summary = "";
+    const captionMatch = block.match(
+      /<div[^>]*class="[^"]*b_caption[^"]*"[^>]*>[\s\S]*?<p[^>]*>([\s\S]*?)<\/p>/
+    );
+    if (captionMatch) {
+      summary = stripHtml(captionMatch[1]);
+    }
+    if (!summary) {
+      const paragraphMatch = block.match(/<p[^>]*>([\s\S]*?)<\/p>/);
+      if (paragraphMatch) {
+        summary = stripHtml(paragraphMatch[1]);
+      }
+    }
+    if (title && /^https?:\/\//.test(url) && !isAdUrl(url)) {
+      results.push({ url, title, summary });
+    }
+  }
+  return results;
+}
+
+/**
+ * Bing wraps result links in a `bing.com/ck/a` click tracker whose `u` param
+ * holds the target URL as "a1" + base64url. Non-tracker URLs pass through.
+ */
+function decodeBingUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    if (!/(^|\.)bing\.com$/.test(parsed.hostname) || !parsed.pathname.startsWith("/ck/")) {
+      return url;
+    }
+    const encoded = parsed.searchParams.get("u") ?? "";
+    if (!encoded.startsWith("a1")) return url;
+    const base64 = encoded.slice(2).replace(/-/g, "+").replace(/_/g, "/");
+    const decoded = Buffer.from(base64, "base64").toString("utf8");
+    return /^https?:\/\//.test(decoded) ? decoded : url;
+  } catch {
+    return url;
+  }
+}
+
+export function parseMojeek(html: string): EngineResult[] {
+  const results: EngineResult[] = [];
+  const blocks = html.split(/<li[^>]*>\s*(?=<a[^>]*class="ob")/);
+  for (let i = 1; i < blocks.length; i++) {
+    const block = blocks[i].substring(0, 5000);
+    const titleMatch = block.match(
+      /<a[^>]*class="title"[^>]*>([\s\S]*?)<\/a>/
+    );
+    const hrefMatch = titleMatch?.[0].match(/href="([^"]+)"/);
+    if (!titleMatch || !hrefMatch) continue;
+    const url = decodeHtmlEntities(hrefMatch[1]);
+    const title = stripHtml(titleMatch[1]);
+    const snippetMatch = block.match(/<p[^>]*class="s"[^>]*>([\s\S]*?)<\/p>/);
+    const summary = snippetMatch ? stripHtml(snippetMatch[1]) : "";
+    if (title && /^https?:\/\//.test(url)) {
+      results.push({ url, title, summary });
+    }
+  }
+  return results;
+}
+
+export function parseSearxng(json: unknown): EngineResult[] {
+  const rawResults = (json as { results?: unknown })?.results;
+  if (!Array.isArray(rawResults)) return [];
+  const results: EngineResult[] = [];
+  for (const raw of rawResults) {
+    const { url, title, content } = (raw ?? {}) as Record<string, unknown>;
+    if (typeof url !== "string" || typeof title !== "string") continue;
+    if (!title || !/^https?:\/\//.test(url)) continue;
+    results.push({
+      url,
+      title: stripHtml(title),
+      summary: typeof content === "string" ? stripHtml(content) : "",
+    });
+  }
+  return results;
+}
+
 // ============================================================================
 // Search engine requests
 // ============================================================================
 
-async function searchBrave(query: string): Promise<SearchItem[]> {
+function parsePageToken(pageToken: string | undefined, initial: number): number {
+  const value = Number(pageToken);
+  return Number.isInteger(value) && value >= initial ? value : initial;
+}
+
+const BRAVE_TIME_RANGES: Record<TimeRange, string> = {
+  day: "pd",
+  week: "pw",
+  month: "pm",
+  year: "py",
+};
+
+async function searchBrave(
+  query: string,
+  options: SearchOptions = {},
+  pageToken?: string,
+  context: CallContext = {}
+): Promise<EnginePage> {
   try {
-    const url = `https://search.brave.com/search?q=${encodeURIComponent(query)}`;
-    const resp = await timedFetch("Brave search", url, {
-      headers: getBrowserHeaders(),
-      signal: AbortSignal.timeout(10000),
-    });
-    if (!resp.ok) return [];
-    const html = await resp.text();
-    return parseBrave(html);
+    // Brave's `offset` is a zero-based page index, not a result offset.
+    const offset = parsePageToken(pageToken, 0);
+    const url = new URL(getConfig().engines.braveUrl);
+    url.searchParams.set("q", buildFilteredQuery(query, options));
+    if (offset > 0) url.searchParams.set("offset", String(offset));
+    if (options.timeRange) {
+      url.searchParams.set("tf", BRAVE_TIME_RANGES[options.timeRange]);
+    }
+    if (options.safeSearch) {
+      url.searchParams.set("safesearch", options.safeSearch);
+    }
+    const headers = { ...getSearchHeaders(options) };
+    // Brave keeps region/language preferences in cookies rather than params.
+    const cookies: string[] = [];
+    if (options.region) cookies.push(`country=${options.region}`);
+    if (options.language) cookies.push(`ui_lang=${options.language}`);
+    if (options.safeSearch) cookies.push(`safesearch=${options.safeSearch}`);
+    if (cookies.length > 0) headers.Cookie = cookies.join("; ");
+    const resp = await timedFetch(
+      "Brave search",
+      url.toString(),
+      {
+        headers,
+        signal: getUpstreamSignal(context),
+      },
+      "brave"
+    );
+    if (!resp.ok) return { results: [], failure: "error" };
+    const html = await readResponseText(resp);
+    if (isBraveChallengeHtml(html)) {
+      braveLog.warning("returned a challenge page");
+      return { results: [], failure: "captcha" };
+    }
+    const results = parseBrave(html);
+    return {
+      results,
+      nextPageToken: results.length > 0 ? String(offset + 1) : undefined,
+    };
   } catch (e) {
-    console.error("[Brave] search error:", (e as Error).message);
-    return [];
+    braveLog.error("search error", { error: e });
+    return { results: [], failure: "error" };
   }
 }
 
-async function fetchDuckDuckGoHtml(url: string): Promise<string> {
-  const resp = await timedFetch("DuckDuckGo search", url, {
-    headers: getBrowserHeaders(),
-    signal: AbortSignal.timeout(10000),
-  });
+const BING_TIME_RANGES: Record<Exclude<TimeRange, "year">, string> = {
+  day: "ez1",
+  week: "ez2",
+  month: "ez3",
+};
+
+function toBingFreshness(timeRange: TimeRange): string {
+  if (timeRange !== "year") return `ex1:"${BING_TIME_RANGES[timeRange]}"`;
+  // Bing has no preset for a year; use a custom range in days since epoch.
+  const today = Math.floor(Date.now() / 86400000);
+  return `ex1:"ez5_${today - 365}_${today}"`;
+}
+
+const BING_PAGE_SIZE = 10;
+
+async function searchBing(
+  query: string,
+  options: SearchOptions = {},
+  pageToken?: string,
+  context: CallContext = {}
+): Promise<EnginePage> {
+  try {
+    const first = parsePageToken(pageToken, 1);
+    const url = new URL(getConfig().engines.bingUrl);
+    url.searchParams.set("q", buildFilteredQuery(query, options));
+    if (first > 1) url.searchParams.set("first", String(first));
+    if (options.timeRange) {
+      url.searchParams.set("filters", toBingFreshness(options.timeRange));
+    }
+    if (options.region) {
+      url.searchParams.set("cc", options.region);
+      url.searchParams.set(
+        "mkt",
+        `${options.language ?? "en"}-${options.region.toUpperCase()}`
+      );
+    }
+    if (options.language) url.searchParams.set("setlang", options.language);
+    if (options.safeSearch) url.searchParams.set("adlt", options.safeSearch);
+    const resp = await timedFetch(
+      "Bing search",
+      url.toString(),
+      {
+        headers: getSearchHeaders(options),
+        signal: getUpstreamSignal(context),
+      },
+      "bing"
+    );
+    if (!resp.ok) return { results: [], failure: "error" };
+    const html = await readResponseText(resp);
+    const results = parseBing(html);
+    return {
+      results,
+      nextPageToken:
+        results.length > 0 ? String(first + BING_PAGE_SIZE) : undefined,
+    };
+  } catch (e) {
+    bingLog.error("search error", { error: e });
+    return { results: [], failure: "error" };
+  }
+}
+
+const MOJEEK_PAGE_SIZE = 10;
+
+async function searchMojeek(
+  query: string,
+  options: SearchOptions = {},
+  pageToken?: string,
+  context: CallContext = {}
+): Promise<EnginePage> {
+  try {
+    const start = parsePageToken(pageToken, 1);
+    const url = new URL(getConfig().engines.mojeekUrl);
+    url.searchParams.set("q", buildFilteredQuery(query, options));
+    if (start > 1) url.searchParams.set("s", String(start));
+    // Mojeek only biases towards a region/language, and has no time filter.
+    if (options.region) url.searchParams.set("rb", options.region);
+    if (options.language) url.searchParams.set("lb", options.language);
+    if (options.safeSearch) {
+      url.searchParams.set("safe", options.safeSearch === "off" ? "0" : "1");
+    }
+    const resp = await timedFetch(
+      "Mojeek search",
+      url.toString(),
+      {
+        headers: getSearchHeaders(options),
+        signal: getUpstreamSignal(context),
+      },
+      "mojeek"
+    );
+    if (!resp.ok) return { results: [], failure: "error" };
+    const html = await readResponseText(resp);
+    const results = parseMojeek(html);
+    return {
+      results,
+      nextPageToken:
+        results.length > 0 ? String(start + MOJEEK_PAGE_SIZE) : undefined,
+    };
+  } catch (e) {
+    mojeekLog.error("search error", { error: e });
+    return { results: [], failure: "error" };
+  }
+}
+
+const SEARXNG_SAFE_SEARCH: Record<SafeSearch, string> = {
+  off: "0",
+  moderate: "1",
+  strict: "2",
+};
+
+async function searchSearxng(
+  query: string,
+  options: SearchOptions = {},
+  pageToken?: string,
+  context: CallContext = {}
+): Promise<EnginePage> {
+  try {
+    const pageno = parsePageToken(pageToken, 1);
+    const url = new URL(
+      "search",
+      getConfig().engines.searxngUrl.replace(/\/*$/, "/")
+    );
+    url.searchParams.set("q", buildFilteredQuery(query, options));
+    url.searchParams.set("format", "json");
+    url.searchParams.set("pageno", String(pageno));
+    if (options.timeRange) url.searchParams.set("time_range", options.timeRange);
+    if (options.language || options.region) {
+      url.searchParams.set(
+        "language",
+        options.region
+          ? `${options.language ?? "en"}-${options.region.toUpperCase()}`
+          : options.language!
+      );
+    }
+    if (options.safeSearch) {
+      url.searchParams.set(
+        "safesearch",
+        SEARXNG_SAFE_SEARCH[options.safeSearch]
+      );
+    }
+    const resp = await timedFetch(
+      "SearXNG search",
+      url.toString(),
+      {
+        headers: { Accept: "application/json" },
+        signal: getUpstreamSignal(context),
+      },
+      "searxng"
+    );
+    if (!resp.ok) return { results: [], failure: "error" };
+    const json = await resp.json();
+    const results = parseSearxng(json);
+    return {
+      results,
+      nextPageToken: results.length > 0 ? String(pageno + 1) : undefined,
+    };
+  } catch (e) {
+    searxngLog.error("search error", { error: e });
+    return { results: [], failure: "error" };
+  }
+}
+
+async function fetchDuckDuckGoHtml(
+  url: string,
+  options: SearchOptions,
+  context: CallContext
+): Promise<string> {
+  // DuckDuckGo reads the region from its `kl` cookie as well as the param;
+  // no other engine gets the cookie.
+  const headers = {
+    ...getSearchHeaders(options),
+    Cookie: `kl=${toDuckDuckGoRegion(options)}`,
+  };
+  const resp = await timedFetch(
+    "DuckDuckGo search",
+    url,
+    {
+      headers,
+      signal: getUpstreamSignal(context),
+    },
+    "duckduckgo"
+  );
 
   if (!resp.ok) {
     throw new Error(`HTTP ${resp.status}: ${resp.statusText}`);
   }
 
-  return resp.text();
+  return readResponseText(resp);
 }
 
 type DuckDuckGoSearchAttempt =
-  | { kind: "success"; results: SearchItem[] }
+  | { kind: "success"; page: EnginePage }
   | { kind: "captcha" }
-  | { kind: "empty"; results: SearchItem[] }
+  | { kind: "empty"; page: EnginePage }
   | { kind: "error" };
 
-function buildDuckDuckGoSearchUrl(baseUrl: string, query: string): string {
+const DUCKDUCKGO_TIME_RANGES: Record<TimeRange, string> = {
+  day: "d",
+  week: "w",
+  month: "m",
+  year: "y",
+};
+
+const DUCKDUCKGO_SAFE_SEARCH: Record<SafeSearch, string> = {
+  off: "-2",
+  moderate: "-1",
+  strict: "1",
+};
+
+function buildDuckDuckGoSearchUrl(
+  baseUrl: string,
+  query: string,
+  options: SearchOptions = {},
+  pageToken?: string
+): string {
   const url = new URL(baseUrl);
-  url.searchParams.set("q", query);
+  url.searchParams.set("q", buildFilteredQuery(query, options));
+  if (pageToken) {
+    // Token is the `s`/`dc` pair from the previous page's "Next" form.
+    const [start, cursor] = pageToken.split(":");
+    url.searchParams.set("s", start);
+    url.searchParams.set("dc", cursor);
+  }
+  if (options.timeRange) {
+    url.searchParams.set("df", DUCKDUCKGO_TIME_RANGES[options.timeRange]);
+  }
+  if (options.region || options.language) {
+    url.searchParams.set("kl", toDuckDuckGoRegion(options));
+  }
+  if (options.safeSearch) {
+    url.searchParams.set("kp", DUCKDUCKGO_SAFE_SEARCH[options.safeSearch]);
+  }
   return url.toString();
 }
 
+/** Health-registry target of an endpoint, e.g. "duckduckgo/ddg.workers.rocks". */
+function getDuckDuckGoTarget(url: string): string {
+  return `duckduckgo/${new URL(url).host}`;
+}
+
 async function tryDuckDuckGoSearchUrl(
   url: string,
-  source: string
+  source: string,
+  options: SearchOptions,
+  context: CallContext
+): Promise<DuckDuckGoSearchAttempt> {
+  const startTime = Date.now();
+  const attempt = await fetchDuckDuckGoAttempt(url, source, options, context);
+  // A cancelled call says nothing about the mirror's health.
+  if (context.signal?.aborted) {
+    releaseTarget(getDuckDuckGoTarget(url));
+  } else {
+    recordOutcome(
+      getDuckDuckGoTarget(url),
+      attempt.kind,
+      getElapsedMs(startTime)
+    );
+    duckDuckGoAttempts.inc({
+      source,
+      mirror: new URL(url).host,
+      outcome: attempt.kind,
+    });
+  }
+  context.onProgress?.(`DuckDuckGo ${source}: ${attempt.kind}`);
+  return attempt;
+}
+
+async function fetchDuckDuckGoAttempt(
+  url: string,
+  source: string,
+  options: SearchOptions,
+  context: CallContext
 ): Promise<DuckDuckGoSearchAttempt> {
   try {
-    console.log(`[DuckDuckGo] Trying ${source}: ${url}`);
-    const html = await fetchDuckDuckGoHtml(url);
+    duckDuckGoLog.info(`Trying ${source}`, { url });
+    const html = await fetchDuckDuckGoHtml(url, options, context);
 
     if (isDuckDuckGoCaptchaHtml(html)) {
-      console.log(`[DuckDuckGo] ${source} returned captcha`);
+      duckDuckGoLog.warning(`${source} returned captcha`, { url });
       return { kind: "captcha" };
     }
 
     const results = parseDuckDuckGo(html);
     if (results.length === 0) {
-      console.log(`[DuckDuckGo] ${source} returned 0 results`);
-      return { kind: "empty", results };
+      duckDuckGoLog.info(`${source} returned 0 results`, { url });
+      return { kind: "empty", page: { results } };
     }
 
-    return { kind: "success", results };
+    return {
+      kind: "success",
+      page: { results, nextPageToken: parseDuckDuckGoNextPage(html) },
+    };
   } catch (e) {
-    console.error(`[DuckDuckGo] ${source} error:`, (e as Error).message);
+    duckDuckGoLog.error(`${source} error`, { url, error: e });
     return { kind: "error" };
   }
 }
 
-async function retryDuckDuckGoViaFallbacks(query: string): Promise<SearchItem[]> {
-  const fallbackBaseUrls = [...DUCKDUCKGO_FALLBACK_SEARCH_URLS].sort(() => Math.random() - 0.5);
-  for (const fallbackBaseUrl of fallbackBaseUrls) {
-    const fallbackUrl = buildDuckDuckGoSearchUrl(fallbackBaseUrl, query);
-    const attempt = await tryDuckDuckGoSearchUrl(fallbackUrl, "fallback");
+// Pause before each retry on another mirror, doubled per retry.
+const DUCKDUCKGO_RETRY_BASE_DELAY_MS = 250;
+const DUCKDUCKGO_RETRY_MAX_DELAY_MS = 2000;
+
+/**
+ * Tries the fallback mirrors healthiest first, skipping those whose circuit
+ * breaker is open, until one answers without a captcha or error.
+ */
+async function retryDuckDuckGoViaFallbacks(
+  query: string,
+  options: SearchOptions,
+  pageToken: string | undefined,
+  context: CallContext
+): Promise<EnginePage> {
+  const baseUrls = new Map(
+    getConfig().engines.duckduckgoFallbackUrls.map((baseUrl) => [
+      getDuckDuckGoTarget(baseUrl),
+      baseUrl,
+    ])
+  );
+  const targets = rankTargets([...baseUrls.keys()]);
+  if (targets.length === 0) {
+    duckDuckGoLog.warning("every fallback mirror's circuit is open");
+  }
+
+  let failure: EnginePage["failure"] = "error";
+  for (let retry = 0; retry < targets.length; retry++) {
+    if (retry > 0) {
+      await sleep(
+        Math.min(
+          DUCKDUCKGO_RETRY_BASE_DELAY_MS * 2 ** (retry - 1),
+          DUCKDUCKGO_RETRY_MAX_DELAY_MS
+        ),
+        context.signal
+      );
+    }
+    if (context.signal?.aborted) break;
+    // Another call may have taken a half-open mirror's trial since ranking.
+    if (!tryAcquireTarget(targets[retry])) continue;
+    const fallbackUrl = buildDuckDuckGoSearchUrl(
+      baseUrls.get(targets[retry])!,
+      query,
+      options,
+      pageToken
+    );
+    const attempt = await tryDuckDuckGoSearchUrl(
+      fallbackUrl,
+      "fallback",
+      options,
+      context
+    );
     if (attempt.kind === "success" || attempt.kind === "empty") {
-      return attempt.results;
+      return attempt.page;
     }
-    if (attempt.kind !== "captcha") {
-      return [];
+    failure = attempt.kind;
+  }
+
+  return { results: [], failure };
+}
+
+async function searchDuckDuckGo(
+  query: string,
+  options: SearchOptions = {},
+  pageToken?: string,
+  context: CallContext = {}
+): Promise<EnginePage> {
+  const primaryUrl = buildDuckDuckGoSearchUrl(
+    getConfig().engines.duckduckgoUrl,
+    query,
+    options,
+    pageToken
+  );
+  if (tryAcquireTarget(getDuckDuckGoTarget(primaryUrl))) {
+    const primaryAttempt = await tryDuckDuckGoSearchUrl(
+      primaryUrl,
+      "primary",
+      options,
+      context
+    );
+    if (primaryAttempt.kind === "success" || primaryAttempt.kind === "empty") {
+      return primaryAttempt.page;
     }
+    duckDuckGoFallbacks.inc({ reason: primaryAttempt.kind });
+  } else {
+    duckDuckGoLog.info("primary circuit is open, using fallbacks");
+    duckDuckGoFallbacks.inc({ reason: "circuit_open" });
   }
 
-  return [];
+  // Captchas and errors alike: the mirrors have their own IPs and uptime.
+  return retryDuckDuckGoViaFallbacks(query, options, pageToken, context);
 }
 
-async function searchDuckDuckGo(query: string): Promise<SearchItem[]> {
-  const primaryUrl = buildDuckDuckGoSearchUrl(DUCKDUCKGO_HTML_SEARCH_URL, query);
-  const primaryAttempt = await tryDuckDuckGoSearchUrl(primaryUrl, "primary");
+// ============================================================================
+// Search engine registry
+// ============================================================================
 
-  if (primaryAttempt.kind === "success" || primaryAttempt.kind === "empty") {
-    return primaryAttempt.results;
-  }
+export interface SearchEngine {
+  /** Stable identifier used in the `engines` tool input, e.g. "brave". */
+  id: string;
+  /** Display name used in logs and tool descriptions. */
+  name: string;
+  /**
+   * Whether the engine runs when the caller does not pass `engines`, unless
+   * the config lists `engines.defaults`.
+   */
+  defaultEnabled: boolean;
+  /** Returns false when the engine is missing required configuration. */
+  isAvailable?: () => boolean;
+  /**
+   * Fetches one results page. Should resolve with no results rather than
+   * reject on upstream failures, and abort its requests on `context.signal`.
+   */
+  search(
+    query: string,
+    options: SearchOptions,
+    pageToken?: string,
+    context?: CallContext
+  ): Promise<EnginePage>;
+}
 
-  if (primaryAttempt.kind !== "captcha") {
-    return [];
-  }
+const searchEngines = new Map<string, SearchEngine>();
+
+export function registerSearchEngine(engine: SearchEngine): void {
+  searchEngines.set(engine.id, engine);
+}
+
+export function listSearchEngines(): SearchEngine[] {
+  return [...searchEngines.values()].filter(
+    (engine) => engine.isAvailable?.() ?? true
+  );
+}
+
+function isDefaultEngine(engine: SearchEngine): boolean {
+  const { defaults } = getConfig().engines;
+  return defaults ? defaults.includes(engine.id) : engine.defaultEnabled;
+}
 
-  return retryDuckDuckGoViaFallbacks(query);
+function resolveSearchEngines(engineIds?: string[]): SearchEngine[] {
+  const available = listSearchEngines();
+  if (!engineIds || engineIds.length === 0) {
+    return available.filter(isDefaultEngine);
+  }
+  const resolved: SearchEngine[] = [];
+  for (const id of new Set(engineIds.map((e) => e.toLowerCase()))) {
+    const engine = available.find((candidate) => candidate.id === id);
+    if (!engine) {
+      throw new Error(
+        `Unknown or unavailable search engine "${id}". Available: ${available
+          .map((candidate) => candidate.id)
+          .join(", ")}`
+      );
+    }
+    resolved.push(engine);
+  }
+  return resolved;
 }
 
+registerSearchEngine({
+  id: "brave",
+  name: "Brave",
+  defaultEnabled: true,
+  search: searchBrave,
+});
+
+registerSearchEngine({
+  id: "duckduckgo",
+  name: "DuckDuckGo",
+  defaultEnabled: true,
+  search: searchDuckDuckGo,
+});
+
+registerSearchEngine({
+  id: "bing",
+  name: "Bing",
+  defaultEnabled: false,
+  search: searchBing,
+});
+
+registerSearchEngine({
+  id: "mojeek",
+  name: "Mojeek",
+  defaultEnabled: false,
+  search: searchMojeek,
+});
+
+registerSearchEngine({
+  id: "searxng",
+  name: "SearXNG",
+  defaultEnabled: true,
+  // Needs a self-hosted instance with the JSON output format enabled.
+  isAvailable: () => getConfig().engines.searxngUrl !== "",
+  search: searchSearxng,
+});
+
 // ============================================================================
 // Merge & dedup
 // ============================================================================
@@ -352,21 +1132,8 @@ function normalizeUrl(url: string): string {
     const parsed = new URL(url);
     const host = parsed.hostname.replace(/^www\./, "");
     const path = parsed.pathname.replace(/\/+$/, "");
-    const trackingParams = [
-      "utm_source",
-      "utm_medium",
-      "utm_campaign",
-      "utm_term",
-      "utm_content",
-      "ref",
-      "fbclid",
-      "gclid",
-      "msclkid",
-      "spm",
-      "from",
-    ];
     const params = new URLSearchParams(parsed.search);
-    for (const tp of trackingParams) {
+    for (const tp of getConfig().filters.trackingParams) {
       params.delete(tp);
     }
     const search = params.toString() ? `?${params.toString()}` : "";
@@ -376,73 +1143,468 @@ function normalizeUrl(url: string): string {
   }
 }
 
+// Standard RRF damping constant: keeps a single #1 hit from dominating URLs
+// that several engines agree on further down.
+const RRF_K = 60;
+
+interface EngineResultList {
+  engine: string;
+  results: EngineResult[];
+}
+
+interface FusedCandidate {
+  item: EngineResult;
+  score: number;
+  bestRank: number;
+  titleRank: number;
+  hits: Array<{ engine: string; rank: number }>;
+}
+
+function isTruncatedTitle(title: string): boolean {
+  return /(\.\.\.|…)$/.test(title.trim());
+}
+
+function isBetterTitle(
+  candidate: string,
+  candidateRank: number,
+  current: string,
+  currentRank: number
+): boolean {
+  if (!current) return !!candidate;
+  if (!candidate) return false;
+  const candidateTruncated = isTruncatedTitle(candidate);
+  if (candidateTruncated !== isTruncatedTitle(current)) {
+    return !candidateTruncated;
+  }
+  return candidateRank < currentRank;
+}
+
 function mergeAndDeduplicate(
-  allResults: SearchItem[][],
-  maxResults: number
+  allResults: EngineResultList[],
+  maxResults: number,
+  options: SearchOptions = {},
+  seenKeys: ReadonlySet<string> = new Set(),
+  rankOffset: number = 0
 ): SearchItem[] {
-  const seen = new Set<string>();
-  const merged: SearchItem[] = [];
-  const maxLen = Math.max(...allResults.map((r) => r.length), 0);
-  for (let idx = 0; idx < maxLen; idx++) {
-    for (const engineResults of allResults) {
-      if (idx >= engineResults.length) continue;
-      const item = engineResults[idx];
-      if (isAdUrl(item.url)) continue;
+  const candidates = new Map<string, FusedCandidate>();
+  for (const { engine, results } of allResults) {
+    const seenInEngine = new Set<string>();
+    let rank = 0;
+    for (const item of results) {
+      if (isAdUrl(item.url) || !matchesDomainFilters(item.url, options)) {
+        continue;
+      }
       const normalized = normalizeUrl(item.url);
-      if (seen.has(normalized)) continue;
-      seen.add(normalized);
-      merged.push(item);
-      if (merged.length >= maxResults) return merged;
+      if (seenInEngine.has(normalized)) continue;
+      seenInEngine.add(normalized);
+      rank++;
+      // Ranked before the skip so later pages keep each engine's own ordering.
+      if (seenKeys.has(getSeenKey(normalized))) continue;
+      const contribution = 1 / (RRF_K + rank);
+      const existing = candidates.get(normalized);
+      if (!existing) {
+        candidates.set(normalized, {
+          item: { ...item },
+          score: contribution,
+          bestRank: rank,
+          titleRank: rank,
+          hits: [{ engine, rank }],
+        });
+        continue;
+      }
+      existing.score += contribution;
+      existing.hits.push({ engine, rank });
+      if (
+        isBetterTitle(
+          item.title,
+          rank,
+          existing.item.title,
+          existing.titleRank
+        )
+      ) {
+        existing.item.title = item.title;
+        existing.titleRank = rank;
+      }
+      if (item.summary.length > existing.item.summary.length) {
+        existing.item.summary = item.summary;
+      }
+      if (rank < existing.bestRank) {
+        existing.bestRank = rank;
+        existing.item.url = item.url;
+      }
     }
   }
-  return merged;
+
+  // Map iteration order is first-seen order, so equal scores keep the
+  // engine order the caller asked for.
+  return [...candidates.values()]
+    .sort((a, b) => b.score - a.score || a.bestRank - b.bestRank)
+    .slice(0, maxResults)
+    .map((candidate, index) => ({
+      ...candidate.item,
+      engines: candidate.hits
+        .sort((a, b) => a.rank - b.rank)
+        .map((hit) => hit.engine),
+      rank: rankOffset + index + 1,
+      score: Number(candidate.score.toFixed(6)),
+    }));
 }
 
 // ============================================================================
-// web_search
+// Pagination cursors
 // ============================================================================
 
-async function webSearch(
-  query: string,
-  numResults: number = 8
-): Promise<SearchItem[]> {
-  const startTime = Date.now();
-  console.log(`[web_search] query="${query}", numResults=${numResults}`);
-  try {
-    const [brave, ddg] = await Promise.allSettled([
-      searchBrave(query),
-      searchDuckDuckGo(query),
-    ]);
-    const allResults: SearchItem[][] = [];
-    const engineNames = ["Brave", "DuckDuckGo"];
-    const engineResults = [brave, ddg];
-    for (let i = 0; i < engineResults.length; i++) {
-      const result = engineResults[i];
-      if (result.status === "fulfilled") {
-        allResults.push(result.value);
-        console.log(
-          `[web_search] ${engineNames[i]}: ${result.value.length} results`
-        );
-      } else {
-        console.log(
-          `[web_search] ${engineNames[i]}: failed - ${result.reason}`
-        );
+// Engines are asked for at most this many pages per call when deduplication
+// leaves fewer than `num_results` fresh hits.
+const MAX_ENGINE_PAGES_PER_CALL = 3;
+// Cap on URLs remembered in a cursor so it stays a reasonable size.
+const MAX_CURSOR_SEEN_KEYS = 300;
+
+/**
+ * Everything needed to continue a search statelessly: the HTTP function
+ * builds a fresh server per request, so the cursor carries all of it.
+ */
+interface SearchCursorState {
+  /** Hash of the query, engines and filters this cursor belongs to. */
+  key: string;
+  /** 1-based number of the page this cursor continues to. */
+  page: number;
+  /** Results returned on earlier pages, used to continue `rank`. */
+  offset: number;
+  /** Page token per engine id; null once that engine is exhausted. */
+  engines: Record<string, string | null>;
+  /** Hashed normalized URLs already returned on earlier pages. */
+  seen: string[];
+}
+
+const searchCursorSchema = z.object({
+  key: z.string(),
+  page: z.number().int().min(1),
+  offset: z.number().int().min(0),
+  engines: z.record(z.string().nullable()),
+  seen: z.array(z.string()),
+});
+
+function getSeenKey(normalizedUrl: string): string {
+  return createHash("sha1").update(normalizedUrl).digest("base64url").slice(0, 10);
+}
+
+function getSearchKey(
+  query: string,
+  engines: SearchEngine[],
+  options: SearchOptions
+): string {
+  const payload = JSON.stringify([
+    query,
+    engines.map((engine) => engine.id).sort(),
+    options,
+  ]);
+  return createHash("sha1").update(payload).digest("base64url").slice(0, 16);
+}
+
+function encodeSearchCursor(state: SearchCursorState): string {
+  return Buffer.from(JSON.stringify(state)).toString("base64url");
+}
+
+function decodeSearchCursor(cursor: string, key: string): SearchCursorState {
+  let state: SearchCursorState;
+  try {
+    state = searchCursorSchema.parse(
+      JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"))
+    );
+  } catch {
+    throw new Error("Invalid cursor: pass next_cursor from a previous web_search result.");
+  }
+  if (state.key !== key) {
+    throw new Error(
+      "Cursor does not match this search: query, engines and filters must stay the same across pages."
+    );
+  }
+  return state;
+}
+
+function isPageConsumed(
+  results: EngineResult[],
+  seenKeys: ReadonlySet<string>,
+  options: SearchOptions
+): boolean {
+  return results.every(
+    (item) =>
+      isAdUrl(item.url) ||
+      !matchesDomainFilters(item.url, options) ||
+      seenKeys.has(getSeenKey(normalizeUrl(item.url)))
+  );
+}
+
+/** Runs one engine and records the outcome in the health registry and metrics. */
+async function runEngineSearch(
+  engine: SearchEngine,
+  query: string,
+  options: SearchOptions,
+  pageToken: string | undefined,
+  context: CallContext
+): Promise<EnginePage> {
+  const startTime = Date.now();
+  let outcome: HealthOutcome = "error";
+  try {
+    const page = await engine.search(query, options, pageToken, context);
+    outcome = page.failure ?? (page.results.length > 0 ? "success" : "empty");
+    engineResults.inc({ engine: engine.id }, page.results.length);
+    context.onProgress?.(`${engine.name}: ${page.results.length} results`);
+    return page;
+  } finally {
+    if (context.signal?.aborted) {
+      releaseTarget(engine.id);
+    } else {
+      recordOutcome(engine.id, outcome, getElapsedMs(startTime));
+      engineSearches.inc({ engine: engine.id, outcome });
+    }
+  }
+}
+
+/**
+ * Fetches one page of merged results. An engine only moves on to its next
+ * page once every hit on its current page has been returned, so leftovers
+ * from a partially used page come first on the following call.
+ */
+async function searchPage(
+  query: string,
+  numResults: number,
+  engines: SearchEngine[],
+  options: SearchOptions,
+  state: SearchCursorState,
+  context: CallContext = {}
+): Promise<{ results: SearchItem[]; state: SearchCursorState }> {
+  const seenKeys = new Set(state.seen);
+  const tokens = { ...state.engines };
+  const results: SearchItem[] = [];
+
+  for (
+    let round = 0;
+    round < MAX_ENGINE_PAGES_PER_CALL && results.length < numResults;
+    round++
+  ) {
+    if (context.signal?.aborted) break;
+    // Engines whose circuit breaker is open sit this round out but keep
+    // their place, so a later page can still use them. Every engine kept
+    // here runs, so runEngineSearch settles its claim.
+    const active = engines.filter(
+      (engine) => tokens[engine.id] !== null && tryAcquireTarget(engine.id)
+    );
+    if (active.length === 0) break;
+
+    const settled = await Promise.allSettled(
+      active.map((engine) =>
+        runEngineSearch(
+          engine,
+          query,
+          options,
+          tokens[engine.id] ?? undefined,
+          context
+        )
+      )
+    );
+    const allResults: EngineResultList[] = [];
+    const nextTokens: Record<string, string | undefined> = {};
+    for (let i = 0; i < settled.length; i++) {
+      const result = settled[i];
+      if (result.status === "fulfilled") {
+        allResults.push({ engine: active[i].id, results: result.value.results });
+        nextTokens[active[i].id] = result.value.nextPageToken;
+        searchLog.info(`${active[i].name} returned results`, {
+          engine: active[i].id,
+          results: result.value.results.length,
+        });
+      } else {
+        tokens[active[i].id] = null;
+        searchLog.error(`${active[i].name}: failed`, {
+          engine: active[i].id,
+          error: result.reason,
+        });
       }
     }
 
-    const mergedResults = mergeAndDeduplicate(allResults, numResults);
-    console.log(
-      `[web_search] total completed in ${getElapsedMs(startTime)}ms, merged=${mergedResults.length}`
+    const merged = mergeAndDeduplicate(
+      allResults,
+      numResults - results.length,
+      options,
+      seenKeys,
+      state.offset + results.length
     );
-    return mergedResults;
-  } catch (e) {
-    console.error(
-      `[web_search] total failed in ${getElapsedMs(startTime)}ms: ${(e as Error).message}`
+    for (const item of merged) {
+      seenKeys.add(getSeenKey(normalizeUrl(item.url)));
+      results.push(item);
+    }
+
+    let advanced = false;
+    for (const { engine, results: engineResults } of allResults) {
+      if (engineResults.length === 0) {
+        tokens[engine] = null;
+      } else if (isPageConsumed(engineResults, seenKeys, options)) {
+        tokens[engine] = nextTokens[engine] ?? null;
+        advanced = true;
+      }
+    }
+    if (!advanced) break;
+  }
+
+  return {
+    results,
+    state: {
+      key: state.key,
+      page: state.page + 1,
+      offset: state.offset + results.length,
+      engines: tokens,
+      seen: [...seenKeys].slice(-MAX_CURSOR_SEEN_KEYS),
+    },
+  };
+}
+
+// ============================================================================
+// web_search
+// ============================================================================
+
+interface SearchResultPage {
+  results: SearchItem[];
+  /** 1-based page number of `results`. */
+  page: number;
+  /** Cursor for the following page; null when every engine is exhausted. */
+  nextCursor: string | null;
+  /** True when the page was served from the response cache. */
+  cached: boolean;
+}
+
+interface SearchPagination {
+  /** Opaque `next_cursor` from a previous call; takes precedence over `page`. */
+  cursor?: string;
+  /** 1-based page number; pages before it are fetched and skipped. */
+  page?: number;
+}
+
+const SEARCH_CACHE_TTL_MS = 10 * 60 * 1000;
+
+function getSearchCacheKey(
+  query: string,
+  numResults: number,
+  engines: SearchEngine[],
+  options: SearchOptions,
+  pagination: SearchPagination
+): string {
+  return `search:${JSON.stringify([
+    query.trim().replace(/\s+/g, " ").toLowerCase(),
+    numResults,
+    engines.map((engine) => engine.id).sort(),
+    options,
+    pagination.cursor ?? pagination.page ?? 1,
+  ])}`;
+}
+
+async function webSearch(
+  query: string,
+  numResults: number = getConfig().tools.numResults,
+  engineIds?: string[],
+  options: SearchOptions = {},
+  pagination: SearchPagination = {},
+  bypassCache: boolean = false,
+  context: CallContext = {}
+): Promise<SearchResultPage> {
+  const startTime = Date.now();
+  searchLog.info("search started", {
+    query,
+    numResults,
+    engines: engineIds ?? "default",
+    options,
+    page: pagination.cursor ? "cursor" : pagination.page ?? 1,
+  });
+  try {
+    const engines = resolveSearchEngines(engineIds);
+    const cacheKey = getSearchCacheKey(
+      query,
+      numResults,
+      engines,
+      options,
+      pagination
+    );
+    const { value, cached } = await withCache(
+      cacheKey,
+      SEARCH_CACHE_TTL_MS,
+      bypassCache,
+      () =>
+        searchPages(query, numResults, engines, options, pagination, context),
+      // Don't pin an outage, a captcha wall or a cut-short search for the
+      // whole TTL.
+      (page) => page.results.length > 0 && !context.signal?.aborted
     );
+    if (context.signal?.aborted && value.results.length === 0) {
+      throw new Error(getAbortMessage(context, "Search"));
+    }
+    searchLog.info("search completed", {
+      elapsedMs: getElapsedMs(startTime),
+      page: value.page,
+      merged: value.results.length,
+      cached,
+    });
+    return { ...value, cached };
+  } catch (e) {
+    searchLog.error("search failed", {
+      elapsedMs: getElapsedMs(startTime),
+      error: e,
+    });
     throw e;
   }
 }
 
+async function searchPages(
+  query: string,
+  numResults: number,
+  engines: SearchEngine[],
+  options: SearchOptions,
+  pagination: SearchPagination,
+  context: CallContext
+): Promise<Omit<SearchResultPage, "cached">> {
+  const key = getSearchKey(query, engines, options);
+  let state: SearchCursorState = pagination.cursor
+    ? decodeSearchCursor(pagination.cursor, key)
+    : { key, page: 1, offset: 0, engines: {}, seen: [] };
+
+  let page = await searchPage(
+    query,
+    numResults,
+    engines,
+    options,
+    state,
+    context
+  );
+  if (!pagination.cursor) {
+    // Without a cursor, walk forward from the first page so earlier
+    // pages' results are skipped exactly as they would be with one.
+    for (let n = 1; n < (pagination.page ?? 1); n++) {
+      state = page.state;
+      if (Object.values(state.engines).every((token) => token === null)) {
+        page = { results: [], state };
+        break;
+      }
+      page = await searchPage(
+        query,
+        numResults,
+        engines,
+        options,
+        state,
+        context
+      );
+    }
+  }
+
+  const exhausted =
+    engines.length === 0 ||
+    engines.every((engine) => page.state.engines[engine.id] === null);
+  return {
+    results: page.results,
+    page: state.page,
+    nextCursor: exhausted ? null : encodeSearchCursor(page.state),
+  };
+}
+
 // ============================================================================
 // web_fetch
 // ============================================================================
@@ -473,113 +1635,1055 @@ function removeUselessTags(html: string): string {
   return cleaned;
 }
 
-function htmlToMarkdown(html: string): string {
-  const turndownService = new TurndownService({
-    headingStyle: "atx",
-    codeBlockStyle: "fenced",
-    bulletListMarker: "-",
+function extractMainContent(html: string): string {
+  const mainMatch = html.match(/<main[^>]*>([\s\S]*?)<\/main>/i);
+  if (mainMatch) return mainMatch[1];
+  const articleMatch = html.match(/<article[^>]*>([\s\S]*?)<\/article>/i);
+  if (articleMatch) return articleMatch[1];
+  const contentMatch = html.match(
+    /<div[^>]*id=["']content["'][^>]*>([\s\S]*?)<\/div>/i
+  );
+  if (contentMatch) return contentMatch[1];
+  const bodyMatch = html.match(/<body[^>]*>([\s\S]*?)<\/body>/i);
+  if (bodyMatch) return bodyMatch[1];
+  return html;
+}
+
+type Extractor = "readability" | "heuristic";
+
+/** What HTML pages are rendered as; other documents stay text or Markdown. */
+type OutputFormat = "markdown" | "text" | "html" | "json";
+
+interface ContentOptions {
+  format: OutputFormat;
+  /** Render only the main content instead of the whole page. */
+  simplify: boolean;
+  extractor: Extractor;
+  /** CSS selector or heading text; takes the place of extraction. */
+  selector?: string;
+}
+
+const DEFAULT_CONTENT_OPTIONS: ContentOptions = {
+  format: "markdown",
+  simplify: true,
+  extractor: "readability",
+};
+
+interface FetchedDocument {
+  content: string;
+  format: DocumentFormat;
+  /** Format of `content`. */
+  contentFormat: OutputFormat;
+  title: string | null;
+  byline: string | null;
+  publishedTime: string | null;
+  /** Extractor that produced `content`; null when the page wasn't simplified. */
+  extractor: Extractor | null;
+  /** Metadata and links of HTML pages; null for other formats. */
+  metadata: PageMetadata | null;
+}
+
+type PageSelection = Pick<
+  FetchedDocument,
+  "title" | "byline" | "publishedTime" | "extractor"
+> & { html: string };
+
+/**
+ * The part of the page to render: what the selector picks, else the main
+ * content when simplifying, else the whole page. Readability is tried
+ * first unless the heuristic is requested; pages where it finds no article
+ * fall back to the heuristic.
+ */
+function selectPageHtml(
+  html: string,
+  url: string,
+  options: ContentOptions
+): PageSelection {
+  if (options.selector) {
+    const selected = selectHtml(html, options.selector);
+    if (selected === null) {
+      throw new Error(
+        `Selector "${options.selector}" matched nothing on "${url}".`
+      );
+    }
+    return { html: selected, ...extractBasicMetadata(html), extractor: null };
+  }
+  if (!options.simplify) {
+    return { html, ...extractBasicMetadata(html), extractor: null };
+  }
+  if (options.extractor === "readability") {
+    const article = extractArticle(html, url);
+    if (article) return { ...article, extractor: "readability" };
+  }
+  return {
+    html: extractMainContent(removeUselessTags(html)),
+    ...extractBasicMetadata(html),
+    extractor: "heuristic",
+  };
+}
+
+function renderHtml(html: string, format: OutputFormat, url: string): string {
+  switch (format) {
+    case "markdown":
+      return htmlToMarkdown(html, url);
+    case "text":
+      return blocksToText(htmlToBlocks(html, url));
+    case "json":
+      // JSON Lines, so every chunk of a long page splits into whole blocks.
+      return htmlToBlocks(html, url)
+        .map((block) => JSON.stringify(block))
+        .join("\n");
+    case "html":
+      return html;
+  }
+}
+
+// Documents are converted in memory; refuse anything larger than this.
+const MAX_DOCUMENT_BYTES = 25 * 1024 * 1024;
+
+/**
+ * Reads the body, cancelling it as soon as it grows past `maxBytes`.
+ * Content-Length is only a hint: it can be missing or wrong, and with
+ * compression it counts the encoded bytes. `what` names the body in the
+ * error.
+ */
+async function readBodyWithLimit(
+  resp: Response,
+  maxBytes: number,
+  what: string = "Document"
+): Promise<Uint8Array> {
+  const tooLarge = () =>
+    new Error(`${what} is larger than ${maxBytes / 1024 / 1024} MB.`);
+  if (Number(resp.headers.get("content-length")) > maxBytes) {
+    await resp.body?.cancel();
+    throw tooLarge();
+  }
+  if (!resp.body) return new Uint8Array(0);
+  const reader = resp.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.length;
+    if (length > maxBytes) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks, length);
+}
+
+async function downloadDocument(
+  url: string,
+  options: ContentOptions,
+  context: CallContext = {}
+): Promise<FetchedDocument> {
+  // timeout_ms, when given, replaces the default download timeout; the
+  // call's own signal enforces it either way.
+  const timeoutMs = context.timeoutMs ?? getConfig().timeouts.fetchMs;
+  try {
+    // Redirects are followed by hand so every hop passes the URL policy.
+    const resp = await fetchWithUrlPolicy(
+      url,
+      {
+        headers: getBrowserHeaders(),
+        signal: getUpstreamSignal(context, timeoutMs),
+      },
+      (hopUrl, init) => timedFetch("web_fetch", hopUrl, init)
+    );
+    if (!resp.ok) {
+      throw new Error(`HTTP ${resp.status}: ${resp.statusText}`);
+    }
+    const contentType = resp.headers.get("content-type") ?? "";
+    const bytes = await readBodyWithLimit(resp, MAX_DOCUMENT_BYTES);
+    const format = detectDocumentFormat(bytes, contentType);
+    if (!format) {
+      throw new Error(
+        `Unsupported content type "${contentType || "unknown"}": only HTML, text, PDF, DOCX and EPUB can be read.`
+      );
+    }
+    if (format !== "html" && options.selector) {
+      throw new Error(
+        `selector needs an HTML page, but "${url}" is ${format.toUpperCase()}.`
+      );
+    }
+    context.onProgress?.(`Downloaded ${bytes.length} bytes (${format})`);
+    if (format === "text") {
+      return {
+        content: decodeBody(bytes, contentType),
+        format,
+        contentFormat: "text",
+        title: null,
+        byline: null,
+        publishedTime: null,
+        extractor: null,
+        metadata: null,
+      };
+    }
+    if (format !== "html") {
+      // Documents are always converted; their raw bytes are never useful.
+      const converted = await convertDocument(format, bytes);
+      context.onProgress?.(`Converted ${format.toUpperCase()} to Markdown`);
+      return {
+        ...converted,
+        format,
+        contentFormat: "markdown",
+        extractor: null,
+        metadata: null,
+      };
+    }
+    const html = decodeBody(bytes, contentType);
+    const pageUrl = resp.url || url;
+    const metadata = extractPageMetadata(html, pageUrl, resp.headers);
+    const { html: selected, ...selection } = selectPageHtml(
+      html,
+      pageUrl,
+      options
+    );
+    if (options.selector) {
+      context.onProgress?.(`Selected "${options.selector}"`);
+    } else if (selection.extractor) {
+      context.onProgress?.(`Extracted main content (${selection.extractor})`);
+    }
+    return {
+      content: renderHtml(selected, options.format, pageUrl),
+      format,
+      contentFormat: options.format,
+      ...selection,
+      metadata,
+    };
+  } catch (e) {
+    if (!isAbortError(e)) throw e;
+    if (context.signal?.aborted) {
+      throw new Error(getAbortMessage(context, `Fetching "${url}"`));
+    }
+    throw new Error(
+      `Timeout: Failed to fetch "${url}" within ${timeoutMs / 1000} seconds.`
+    );
+  }
+}
+
+const FETCH_CACHE_TTL_MS = 30 * 60 * 1000;
+
+// Params that only attribute a visit; any other param may change the page.
+const ATTRIBUTION_PARAM =
+  /^(?:utm_\w+|gclid|dclid|fbclid|msclkid|yclid|mc_cid|mc_eid|_ga|_gl)$/i;
+
+/**
+ * Identity of a fetched document: the URL without its fragment and without
+ * attribution params. Unlike `normalizeUrl`, which only dedupes search
+ * results, the path and query keep their case and every other param.
+ */
+function getDocumentKey(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = "";
+    // Filtered by hand: URLSearchParams would re-encode the other params.
+    const query = parsed.search
+      .slice(1)
+      .split("&")
+      .filter((pair) => {
+        const name = pair.split("=")[0];
+        try {
+          return pair && !ATTRIBUTION_PARAM.test(decodeURIComponent(name));
+        } catch {
+          return true;
+        }
+      })
+      .join("&");
+    parsed.search = query;
+    return parsed.href;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * The whole converted document is cached, not the returned chunk, so
+ * `start_index` continuation calls slice the same text without downloading
+ * and converting the page again.
+ */
+function loadDocument(
+  url: string,
+  options: ContentOptions,
+  bypassCache: boolean,
+  context: CallContext
+): Promise<{ value: FetchedDocument; cached: boolean }> {
+  const { format, simplify, extractor, selector } = options;
+  const source = selector
+    ? `select=${encodeURIComponent(selector)}`
+    : simplify
+      ? extractor
+      : "page";
+  const key = `fetch:${format}:${source}:${getDocumentKey(url)}`;
+  return withCache(key, FETCH_CACHE_TTL_MS, bypassCache, () =>
+    downloadDocument(url, options, context)
+  );
+}
+
+type FetchMode = "content" | "links";
+
+/**
+ * The page's links without ads, and without URLs that only differ by
+ * tracking params or `www.`.
+ */
+function filterPageLinks(links: PageLink[]): PageLink[] {
+  const seen = new Set<string>();
+  return links.filter((link) => {
+    if (isAdUrl(link.url)) return false;
+    const key = normalizeUrl(link.url);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function formatLinks(links: PageLink[]): string {
+  return links
+    .map((link) =>
+      link.text ? `- [${link.text}](${link.url})` : `- ${link.url}`
+    )
+    .join("\n");
+}
+
+interface FetchResult extends Omit<FetchedDocument, "content"> {
+  /** The requested chunk of the document, or of the link list. */
+  content: string;
+  /** Filtered links in "links" mode. */
+  links?: PageLink[];
+  /** Length of the whole converted document. */
+  totalLength: number;
+  startIndex: number;
+  truncated: boolean;
+  /** Where the next chunk starts, or null when `content` reaches the end. */
+  nextStartIndex: number | null;
+  /** True when the document was served from the response cache. */
+  cached: boolean;
+}
+
+async function webFetch(
+  url: string,
+  maxCharSize: number = getConfig().tools.maxCharSize,
+  options: ContentOptions = DEFAULT_CONTENT_OPTIONS,
+  startIndex: number = 0,
+  bypassCache: boolean = false,
+  mode: FetchMode = "content",
+  context: CallContext = {}
+): Promise<FetchResult> {
+  const startTime = Date.now();
+  fetchToolLog.info("fetch started", {
+    url,
+    maxCharSize,
+    ...options,
+    startIndex,
+    bypassCache,
+    mode,
+  });
+  try {
+    const { value: fetched, cached } = await loadDocument(
+      url,
+      options,
+      bypassCache,
+      context
+    );
+    if (cached) context.onProgress?.("Loaded from cache");
+    const { content: pageContent, ...metadata } = fetched;
+    let links: PageLink[] | undefined;
+    if (mode === "links") {
+      if (!fetched.metadata) {
+        throw new Error(
+          `mode "links" needs an HTML page, but "${url}" is ${fetched.format.toUpperCase()}.`
+        );
+      }
+      links = filterPageLinks(fetched.metadata.links);
+    }
+    // Links mode pages through the link list like any other document.
+    const document = links ? formatLinks(links) : pageContent;
+    if (startIndex > 0 && startIndex >= document.length) {
+      throw new Error(
+        `start_index ${startIndex} is past the end of the document (total_length=${document.length}).`
+      );
+    }
+    const end = findChunkEnd(document, startIndex, startIndex + maxCharSize);
+    const content = document.substring(startIndex, end);
+    fetchToolLog.info("fetch completed", {
+      elapsedMs: getElapsedMs(startTime),
+      contentLength: content.length,
+      totalLength: document.length,
+      cached,
+    });
+    return {
+      ...metadata,
+      // The link list is Markdown whatever the page was rendered as.
+      contentFormat: links ? "markdown" : metadata.contentFormat,
+      content,
+      totalLength: document.length,
+      startIndex,
+      truncated: end < document.length,
+      nextStartIndex: end < document.length ? end : null,
+      cached,
+      links,
+    };
+  } catch (e) {
+    fetchToolLog.error("fetch failed", {
+      elapsedMs: getElapsedMs(startTime),
+      error: e,
+    });
+    throw e;
+  }
+}
+
+// ============================================================================
+// Batch fetch
+// ============================================================================
+
+/**
+ * Runs `task` over `items` with at most `concurrency` tasks in flight, and
+ * at most `perKey` of them sharing a `keyOf` key. `task` must not reject.
+ * Results keep the order of `items`.
+ */
+function mapWithLimits<T, R>(
+  items: T[],
+  concurrency: number,
+  perKey: number,
+  keyOf: (item: T) => string,
+  task: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  const pending = items.map((_, index) => index);
+  const active = new Map<string, number>();
+  let running = 0;
+  let finished = 0;
+  return new Promise((resolve) => {
+    const launch = () => {
+      for (let i = 0; i < pending.length && running < concurrency; ) {
+        const index = pending[i];
+        const key = keyOf(items[index]);
+        if ((active.get(key) ?? 0) >= perKey) {
+          i++;
+          continue;
+        }
+        pending.splice(i, 1);
+        running++;
+        active.set(key, (active.get(key) ?? 0) + 1);
+        task(items[index]).then((result) => {
+          results[index] = result;
+          running--;
+          active.set(key, active.get(key)! - 1);
+          if (++finished === items.length) resolve(results);
+          else launch();
+        });
+      }
+    };
+    if (items.length === 0) resolve(results);
+    else launch();
+  });
+}
+
+function getHostKey(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return "";
+  }
+}
+
+type FetchManyEntry =
+  | { url: string; ok: true; result: FetchResult }
+  | { url: string; ok: false; error: string };
+
+/**
+ * One URL of a batch through the web_fetch pipeline, with its own
+ * `timeoutMs` on top of the call's signal. Never rejects.
+ */
+async function fetchBatchEntry(
+  url: string,
+  maxCharSize: number,
+  options: ContentOptions,
+  bypassCache: boolean,
+  timeoutMs: number | undefined,
+  context: CallContext
+): Promise<FetchManyEntry> {
+  const timeout =
+    timeoutMs === undefined ? undefined : AbortSignal.timeout(timeoutMs);
+  const signal =
+    timeout && context.signal
+      ? AbortSignal.any([timeout, context.signal])
+      : (timeout ?? context.signal);
+  try {
+    return {
+      url,
+      ok: true,
+      result: await webFetch(
+        url,
+        maxCharSize,
+        options,
+        0,
+        bypassCache,
+        "content",
+        // Per-URL stages would drown the batch's own progress messages.
+        { signal, timeoutMs }
+      ),
+    };
+  } catch (e) {
+    return { url, ok: false, error: (e as Error).message };
+  }
+}
+
+/**
+ * Fetches every URL with the web_fetch pipeline, `tools.fetchConcurrency`
+ * at a time and at most `tools.fetchPerHost` per host. A failed URL becomes
+ * an error entry instead of failing the batch; `timeoutMs` applies to each
+ * URL on its own.
+ */
+async function webFetchMany(
+  urls: string[],
+  maxCharSize: number,
+  options: ContentOptions,
+  bypassCache: boolean,
+  timeoutMs: number | undefined,
+  context: CallContext = {}
+): Promise<FetchManyEntry[]> {
+  const { fetchConcurrency, fetchPerHost } = getConfig().tools;
+  let completed = 0;
+  return mapWithLimits(
+    urls,
+    fetchConcurrency,
+    fetchPerHost,
+    getHostKey,
+    async (url) => {
+      const entry = await fetchBatchEntry(
+        url,
+        maxCharSize,
+        options,
+        bypassCache,
+        timeoutMs,
+        context
+      );
+      context.onProgress?.(
+        `${entry.ok ? "Fetched" : "Failed"} ${++completed}/${urls.length}: ${url}`
+      );
+      return entry;
+    }
+  );
+}
+
+// ============================================================================
+// Research
+// ============================================================================
+
+// Pages are cut into passages of about this size before ranking.
+const RESEARCH_PASSAGE_CHARS = 1200;
+
+interface ResearchPassage {
+  url: string;
+  title: string;
+  /** Headings above the passage joined with " > "; empty before the first. */
+  section: string;
+  content: string;
+  /** BM25 score against the query. */
+  score: number;
+}
+
+interface ResearchSource {
+  url: string;
+  title: string;
+  /** Why the page couldn't be read, null when it was. */
+  error: string | null;
+  /** How many of the returned passages come from this page. */
+  passages: number;
+}
+
+interface ResearchResult {
+  passages: ResearchPassage[];
+  sources: ResearchSource[];
+  totalChars: number;
+}
+
+/**
+ * Searches, fetches the top `numPages` results, splits them into
+ * heading-aware passages and returns the passages that rank best for the
+ * query under BM25, best first, until `maxChars` is used up.
+ */
+async function webResearch(
+  query: string,
+  numPages: number,
+  maxChars: number,
+  engineIds?: string[],
+  bypassCache: boolean = false,
+  context: CallContext = {}
+): Promise<ResearchResult> {
+  const startTime = Date.now();
+  researchLog.info("research started", { query, numPages, maxChars });
+  try {
+    const { results } = await webSearch(
+      query,
+      numPages,
+      engineIds,
+      {},
+      {},
+      bypassCache,
+      context
+    );
+    if (results.length === 0) {
+      throw new Error(`No search results for "${query}".`);
+    }
+    const pages = await webFetchMany(
+      results.map((result) => result.url),
+      getConfig().tools.maxCharSize,
+      DEFAULT_CONTENT_OPTIONS,
+      bypassCache,
+      undefined,
+      context
+    );
+
+    const sources: ResearchSource[] = pages.map((page, i) => ({
+      url: page.url,
+      title: (page.ok && page.result.title) || results[i].title,
+      error: page.ok ? null : page.error,
+      passages: 0,
+    }));
+    const candidates = pages.flatMap((page, i) =>
+      page.ok
+        ? splitPassages(page.result.content, RESEARCH_PASSAGE_CHARS).map(
+            (passage) => ({
+              source: sources[i],
+              section: passage.headings.join(" > "),
+              content: passage.text,
+            })
+          )
+        : []
+    );
+    const scores = scoreBm25(
+      query,
+      candidates.map(
+        (candidate) => `${candidate.section}\n${candidate.content}`
+      )
+    );
+
+    const passages: ResearchPassage[] = [];
+    const seen = new Set<string>();
+    let totalChars = 0;
+    const ranked = candidates
+      .map((candidate, i) => ({ ...candidate, score: scores[i] }))
+      .filter((candidate) => candidate.score > 0)
+      .sort((a, b) => b.score - a.score);
+    for (const candidate of ranked) {
+      // Mirrors and syndicated copies repeat passages word for word.
+      if (seen.has(candidate.content)) continue;
+      if (totalChars + candidate.content.length > maxChars) continue;
+      seen.add(candidate.content);
+      totalChars += candidate.content.length;
+      candidate.source.passages++;
+      passages.push({
+        url: candidate.source.url,
+        title: candidate.source.title,
+        section: candidate.section,
+        content: candidate.content,
+        score: candidate.score,
+      });
+    }
+
+    researchLog.info("research completed", {
+      elapsedMs: getElapsedMs(startTime),
+      pages: pages.filter((page) => page.ok).length,
+      candidates: candidates.length,
+      passages: passages.length,
+      totalChars,
+    });
+    return { passages, sources, totalChars };
+  } catch (e) {
+    researchLog.error("research failed", {
+      elapsedMs: getElapsedMs(startTime),
+      error: e,
+    });
+    throw e;
+  }
+}
+
+// ============================================================================
+// Crawl
+// ============================================================================
+
+// Sitemap indexes can nest thousands of files and a sitemap can list 50,000
+// URLs; a fraction of that is plenty to seed a crawl that stops at
+// MAX_CRAWL_PAGES anyway.
+const MAX_SITEMAP_FILES = 5;
+const MAX_SITEMAP_URLS = 1000;
+const MAX_SITEMAP_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Page URLs of the site's /sitemap.xml, following sitemap indexes; empty
+ * when there is none. Sitemaps are optional, so failures only get logged.
+ * Reading stops at MAX_SITEMAP_FILES files or MAX_SITEMAP_URLS URLs, and a
+ * file over MAX_SITEMAP_BYTES is skipped.
+ */
+async function readSitemap(
+  origin: string,
+  context: CallContext
+): Promise<{ url: string; urls: string[] } | null> {
+  const sitemapUrl = `${origin}/sitemap.xml`;
+  const pending = [sitemapUrl];
+  const urls: string[] = [];
+  let found = false;
+  for (
+    let files = 0;
+    pending.length > 0 &&
+    files < MAX_SITEMAP_FILES &&
+    urls.length < MAX_SITEMAP_URLS;
+    files++
+  ) {
+    const url = pending.shift()!;
+    try {
+      const resp = await fetchWithUrlPolicy(
+        url,
+        { headers: getBrowserHeaders(), signal: getUpstreamSignal(context) },
+        (hopUrl, init) => timedFetch("sitemap", hopUrl, init)
+      );
+      if (!resp.ok) {
+        await resp.body?.cancel();
+        continue;
+      }
+      const bytes = await readBodyWithLimit(
+        resp,
+        MAX_SITEMAP_BYTES,
+        "Sitemap"
+      );
+      const sitemap = parseSitemap(
+        decodeBody(bytes, resp.headers.get("content-type"))
+      );
+      found ||= sitemap.urls.length > 0 || sitemap.sitemaps.length > 0;
+      urls.push(...sitemap.urls.slice(0, MAX_SITEMAP_URLS - urls.length));
+      // Only queue the child sitemaps the file budget can still read.
+      const room = Math.max(0, MAX_SITEMAP_FILES - files - 1 - pending.length);
+      pending.push(...sitemap.sitemaps.slice(0, room));
+    } catch (e) {
+      crawlLog.warning("sitemap unavailable", { url, error: e });
+    }
+  }
+  return found ? { url: sitemapUrl, urls } : null;
+}
+
+/**
+ * Glob on the URL path: `*` matches any run of characters, including `/`,
+ * so "/docs/*" covers the whole /docs tree.
+ */
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}$`);
+}
+
+interface CrawlOptions {
+  maxPages: number;
+  maxDepth: number;
+  maxCharSize: number;
+  /** Path globs a page must match one of, when given. */
+  include?: string[];
+  /** Path globs that rule a page out. */
+  exclude?: string[];
+  useSitemap: boolean;
+  bypassCache: boolean;
+  /** Per-page download timeout. */
+  timeoutMs?: number;
+}
+
+interface CrawlPage {
+  url: string;
+  /** Link hops from the seed; sitemap pages count as one hop. */
+  depth: number;
+  entry: FetchManyEntry;
+}
+
+interface CrawlResult {
+  pages: CrawlPage[];
+  /** The sitemap that seeded the crawl, null when there was none. */
+  sitemapUrl: string | null;
+  /** True when max_pages stopped the crawl with pages still queued. */
+  limitReached: boolean;
+}
+
+/**
+ * Breadth-first crawl of the seed's site: the seed, then the pages of its
+ * sitemap and the same-site links of every page read, level by level
+ * until `maxDepth` or `maxPages`. Each level is fetched like web_fetch_many.
+ * The seed is always read; include/exclude apply to the pages found from it.
+ */
+async function webCrawl(
+  seedUrl: string,
+  options: CrawlOptions,
+  context: CallContext = {}
+): Promise<CrawlResult> {
+  const startTime = Date.now();
+  crawlLog.info("crawl started", { url: seedUrl, ...options });
+  let origin: string;
+  try {
+    origin = new URL(seedUrl).origin;
+  } catch {
+    throw new Error(`"${seedUrl}" is not a valid URL.`);
+  }
+  // Sites commonly redirect between example.com and www.example.com, or
+  // http and https, so links only have to match the host without `www.`.
+  const getSite = (url: URL) => url.host.replace(/^www\./, "");
+  const site = getSite(new URL(seedUrl));
+  const include = options.include?.map(globToRegExp) ?? [];
+  const exclude = options.exclude?.map(globToRegExp) ?? [];
+  const seen = new Set<string>([getDocumentKey(seedUrl)]);
+  /** Same-site URLs passing the path filters, not queued before. */
+  const accept = (url: string): boolean => {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return false;
+    }
+    if (getSite(parsed) !== site) return false;
+    const path = parsed.pathname;
+    if (include.length > 0 && !include.some((re) => re.test(path))) {
+      return false;
+    }
+    if (exclude.some((re) => re.test(path))) return false;
+    const key = getDocumentKey(url);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  };
+
+  const sitemap =
+    options.useSitemap && options.maxDepth > 0
+      ? await readSitemap(origin, context)
+      : null;
+  if (sitemap) {
+    context.onProgress?.(`Read ${sitemap.url} (${sitemap.urls.length} URLs)`);
+  }
+
+  const { fetchConcurrency, fetchPerHost } = getConfig().tools;
+  const pages: CrawlPage[] = [];
+  let level = [seedUrl];
+  let limitReached = false;
+  let crawled = 0;
+  for (let depth = 0; level.length > 0; depth++) {
+    if (context.signal?.aborted) break;
+    const batch = level.slice(0, options.maxPages - pages.length);
+    const entries = await mapWithLimits(
+      batch,
+      fetchConcurrency,
+      fetchPerHost,
+      getHostKey,
+      async (url) => {
+        const entry = await fetchBatchEntry(
+          url,
+          options.maxCharSize,
+          DEFAULT_CONTENT_OPTIONS,
+          options.bypassCache,
+          options.timeoutMs,
+          context
+        );
+        context.onProgress?.(
+          `${entry.ok ? "Crawled" : "Failed"} ${++crawled}/${options.maxPages} (depth ${depth}): ${url}`
+        );
+        return entry;
+      }
+    );
+    batch.forEach((url, i) => pages.push({ url, depth, entry: entries[i] }));
+    if (batch.length < level.length) {
+      limitReached = true;
+      break;
+    }
+    if (depth >= options.maxDepth) break;
+
+    // Sitemap pages join the seed's links as the first level below it.
+    const next = depth === 0 ? (sitemap?.urls ?? []).filter(accept) : [];
+    for (const entry of entries) {
+      if (!entry.ok) continue;
+      for (const link of entry.result.metadata?.links ?? []) {
+        if (accept(link.url)) next.push(link.url);
+      }
+    }
+    if (next.length > 0 && pages.length >= options.maxPages) {
+      limitReached = true;
+      break;
+    }
+    level = next;
+  }
+  crawlLog.info("crawl completed", {
+    elapsedMs: getElapsedMs(startTime),
+    pages: pages.length,
+    failed: pages.filter((page) => !page.entry.ok).length,
+    sitemap: sitemap?.url ?? null,
+    limitReached,
+  });
+  return { pages, sitemapUrl: sitemap?.url ?? null, limitReached };
+}
+
+// ============================================================================
+// MCP Server setup
+// ============================================================================
+
+type ToolCallExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/**
+ * Ties a tool call's work to its MCP request: the client's
+ * notifications/cancelled (or timeout_ms) aborts upstream fetches, and
+ * finished stages are sent as notifications/progress when the client asked
+ * for them with a progressToken.
+ */
+function createCallContext(
+  extra: ToolCallExtra,
+  timeoutMs?: number
+): CallContext {
+  const progressToken = extra._meta?.progressToken;
+  let progress = 0;
+  return {
+    signal:
+      timeoutMs === undefined
+        ? extra.signal
+        : AbortSignal.any([extra.signal, AbortSignal.timeout(timeoutMs)]),
+    timeoutMs,
+    onProgress:
+      progressToken === undefined
+        ? undefined
+        : (message) => {
+            extra
+              .sendNotification({
+                method: "notifications/progress",
+                params: { progressToken, progress: ++progress, message },
+              })
+              .catch((e) =>
+                serverLog.warning("progress notification failed", { error: e })
+              );
+          },
+  };
+}
+
+/**
+ * W3C trace ID from a `traceparent` passed in the request's _meta, so
+ * entries can be joined with the caller's own traces; random otherwise.
+ */
+function getTraceId(extra: ToolCallExtra): string {
+  const traceparent = extra._meta?.traceparent;
+  const traceId =
+    typeof traceparent === "string" ? traceparent.split("-")[1] : undefined;
+  return traceId && /^[0-9a-f]{32}$/.test(traceId)
+    ? traceId
+    : randomBytes(16).toString("hex");
+}
+
+const pageLinkSchema = z.object({ url: z.string(), text: z.string() });
+
+const pageMetadataSchema = z.object({
+  title: z.string().nullable(),
+  canonical_url: z.string().nullable(),
+  description: z.string().nullable(),
+  language: z.string().nullable(),
+  last_modified: z.string().nullable(),
+  open_graph: z.record(z.string()),
+  twitter: z.record(z.string()),
+  json_ld: z.array(z.unknown()),
+  links: z.array(pageLinkSchema),
+});
+
+function toMetadataOutput(
+  metadata: PageMetadata
+): z.infer<typeof pageMetadataSchema> {
+  return {
+    title: metadata.title,
+    canonical_url: metadata.canonicalUrl,
+    description: metadata.description,
+    language: metadata.language,
+    last_modified: metadata.lastModified,
+    open_graph: metadata.openGraph,
+    twitter: metadata.twitter,
+    json_ld: metadata.jsonLd,
+    links: metadata.links,
+  };
+}
+
+const contentBlockSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("heading"), level: z.number(), text: z.string() }),
+  z.object({ type: z.literal("paragraph"), text: z.string() }),
+  z.object({
+    type: z.literal("list"),
+    ordered: z.boolean(),
+    items: z.array(z.string()),
+  }),
+  z.object({
+    type: z.literal("code"),
+    language: z.string().nullable(),
+    text: z.string(),
+  }),
+  z.object({
+    type: z.literal("table"),
+    headers: z.array(z.string()),
+    rows: z.array(z.array(z.string())),
+  }),
+  z.object({ type: z.literal("quote"), text: z.string() }),
+  z.object({ type: z.literal("image"), url: z.string(), alt: z.string() }),
+]);
+
+/**
+ * Blocks of a chunk in the "json" format. A block longer than the chunk is
+ * cut mid-line; its pieces stay in `content` but aren't parsed.
+ */
+function parseBlockLines(content: string): ContentBlock[] {
+  return content.split("\n").flatMap((line) => {
+    try {
+      return [JSON.parse(line) as ContentBlock];
+    } catch {
+      return [];
+    }
   });
-  turndownService.remove([
-    "script",
-    "style",
-    "iframe",
-    "noscript",
-    "svg",
-    "nav",
-    "footer",
-  ]);
-  try {
-    let md = turndownService.turndown(html);
-    md = md.replace(/\n{3,}/g, "\n\n");
-    md = md.replace(/[ \t]+$/gm, "");
-    return md.trim();
-  } catch (e) {
-    console.error("[htmlToMarkdown] conversion error:", (e as Error).message);
-    return html
-      .replace(/<[^>]+>/g, " ")
-      .replace(/\s+/g, " ")
-      .trim();
-  }
 }
 
-function extractMainContent(html: string): string {
-  const mainMatch = html.match(/<main[^>]*>([\s\S]*?)<\/main>/i);
-  if (mainMatch) return mainMatch[1];
-  const articleMatch = html.match(/<article[^>]*>([\s\S]*?)<\/article>/i);
-  if (articleMatch) return articleMatch[1];
-  const contentMatch = html.match(
-    /<div[^>]*id=["']content["'][^>]*>([\s\S]*?)<\/div>/i
-  );
-  if (contentMatch) return contentMatch[1];
-  const bodyMatch = html.match(/<body[^>]*>([\s\S]*?)<\/body>/i);
-  if (bodyMatch) return bodyMatch[1];
-  return html;
+// Larger batches belong in several calls, so one call can't hog the limits.
+const MAX_FETCH_MANY_URLS = 20;
+const MAX_RESEARCH_PAGES = 10;
+const MAX_CRAWL_PAGES = 50;
+const MAX_CRAWL_DEPTH = 5;
+
+const timeoutMsSchema = z
+  .number()
+  .int()
+  .min(1000)
+  .max(300000)
+  .optional();
+
+export interface MCPServerOptions {
+  /** Only register these tools, e.g. the allowlist of the caller's API key. */
+  allowedTools?: string[];
+  /**
+   * Replaces the server config loaded from ORZ_CONFIG and the environment
+   * (see ./config.ts), for this and every later server.
+   */
+  config?: ServerConfig;
 }
 
-async function webFetch(
-  url: string,
-  maxCharSize: number = 50000,
-  simplify: boolean = true
-): Promise<string> {
-  const startTime = Date.now();
-  console.log(
-    `[web_fetch] url="${url}", maxCharSize=${maxCharSize}, simplify=${simplify}`
+let checkedConfig: ServerConfig | undefined;
+
+/** Warns once per config about default engines that aren't registered. */
+function checkDefaultEngines(config: ServerConfig): void {
+  if (checkedConfig === config) return;
+  checkedConfig = config;
+  const unknown = (config.engines.defaults ?? []).filter(
+    (id) => !searchEngines.has(id)
   );
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 10000);
-  try {
-    const resp = await timedFetch("web_fetch", url, {
-      headers: getBrowserHeaders(),
-      signal: controller.signal,
-      redirect: "follow",
+  if (unknown.length > 0) {
+    serverLog.warning("unknown engines in engines.defaults", {
+      engines: unknown,
+      registered: [...searchEngines.keys()],
     });
-    clearTimeout(timeoutId);
-    if (!resp.ok) {
-      throw new Error(`HTTP ${resp.status}: ${resp.statusText}`);
-    }
-    const contentType = resp.headers.get("content-type") ?? "";
-    if (!contentType.includes("html")) {
-      const text = await resp.text();
-      const result = text.substring(0, maxCharSize);
-      console.log(
-        `[web_fetch] total completed in ${getElapsedMs(startTime)}ms, contentLength=${result.length}`
-      );
-      return result;
-    }
-    let html = await resp.text();
-    if (simplify) {
-      html = removeUselessTags(html);
-      const mainContent = extractMainContent(html);
-      const markdown = htmlToMarkdown(mainContent);
-      const result = markdown.substring(0, maxCharSize);
-      console.log(
-        `[web_fetch] total completed in ${getElapsedMs(startTime)}ms, contentLength=${result.length}`
-      );
-      return result;
-    } else {
-      const result = html.substring(0, maxCharSize);
-      console.log(
-        `[web_fetch] total completed in ${getElapsedMs(startTime)}ms, contentLength=${result.length}`
-      );
-      return result;
-    }
-  } catch (e) {
-    clearTimeout(timeoutId);
-    console.error(
-      `[web_fetch] total failed in ${getElapsedMs(startTime)}ms: ${(e as Error).message}`
-    );
-    if ((e as Error).name === "AbortError") {
-      throw new Error(`Timeout: Failed to fetch "${url}" within 10 seconds.`);
-    }
-    throw e;
   }
 }
 
-// ============================================================================
-// MCP Server setup
-// ============================================================================
+export const setupMCPServer = (options: MCPServerOptions = {}): McpServer => {
+  if (options.config) setConfig(options.config);
+  const config = getConfig();
+  checkDefaultEngines(config);
 
-export const setupMCPServer = (): McpServer => {
   const server = new McpServer(
     {
       name: "orz",
@@ -588,15 +2692,71 @@ export const setupMCPServer = (): McpServer => {
     { capabilities: { logging: {} } }
   );
 
+  // The SDK's own logging/setLevel handler only filters messages sent
+  // outside a request; tool logs go out on the call's own stream, so track
+  // the client's level here.
+  let clientLogLevel: LoggingLevel = DEFAULT_LOG_LEVEL;
+  server.server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+    clientLogLevel = request.params.level;
+    return {};
+  });
+
+  /**
+   * Runs a tool call with its log entries forwarded to the client, and
+   * counts its outcome and latency in the metrics.
+   */
+  const runToolCall = <T>(
+    tool: string,
+    extra: ToolCallExtra,
+    fn: () => Promise<T>
+  ) => {
+    const startTime = Date.now();
+    const observe = (status: "success" | "error") => {
+      toolCalls.inc({ tool, status });
+      toolCallDuration.observe({ tool }, getElapsedMs(startTime) / 1000);
+    };
+    return runWithLogContext(
+      {
+        requestId: extra.requestId,
+        traceId: getTraceId(extra),
+        notify: (level, logger, data) => {
+          if (!isLevelEnabled(level, clientLogLevel)) return;
+          extra
+            .sendNotification({
+              method: "notifications/message",
+              params: { level, logger, data },
+            })
+            .catch(() => {});
+        },
+      },
+      () =>
+        fn().then(
+          (value) => {
+            observe("success");
+            return value;
+          },
+          (e) => {
+            observe("error");
+            throw e;
+          }
+        )
+    );
+  };
+
+  const availableEngines = listSearchEngines();
+  const defaultEngines = availableEngines.filter(isDefaultEngine);
+
   // Tool: web_search
-  server.registerTool(
+  const webSearchTool = server.registerTool(
     "web_search",
     {
       title: "Web Search",
       description:
-        "Search the web using multiple search engines (Brave, DuckDuckGo) simultaneously. " +
-        "Results are deduplicated and ads are filtered out. " +
-        "Returns an array of search results with url, title, and summary.",
+        `Search the web using multiple search engines (${defaultEngines.map((engine) => engine.name).join(", ")} by default) simultaneously. ` +
+        "Results are deduplicated, ads are filtered out, and rankings are fused across engines " +
+        "so URLs that several engines agree on rank higher. " +
+        "Returns an array of search results with url, title, summary, the engines that returned each hit, " +
+        "its merged rank and fusion score.",
       inputSchema: {
         query: z
           .string()
@@ -605,17 +2765,104 @@ export const setupMCPServer = (): McpServer => {
           ),
         num_results: z
           .number()
-          .describe("Number of results to return (default: 8)")
-          .default(8),
+          .describe(
+            `Number of results to return (default: ${config.tools.numResults})`
+          )
+          .default(config.tools.numResults),
+        engines: z
+          .array(z.string())
+          .optional()
+          .describe(
+            `Search engines to query (default: ${defaultEngines
+              .map((engine) => engine.id)
+              .join(", ")}). Available: ${availableEngines
+              .map((engine) => engine.id)
+              .join(", ")}`
+          ),
+        include_domains: z
+          .array(z.string())
+          .optional()
+          .describe(
+            "Only return results from these domains (subdomains included), e.g. ['github.com']"
+          ),
+        exclude_domains: z
+          .array(z.string())
+          .optional()
+          .describe("Never return results from these domains"),
+        time_range: z
+          .enum(["day", "week", "month", "year"])
+          .optional()
+          .describe("Only return results published within this time range"),
+        region: z
+          .string()
+          .regex(/^[a-zA-Z]{2}$/)
+          .transform((value) => value.toLowerCase())
+          .optional()
+          .describe("Two-letter country code to localize results, e.g. 'cn', 'us'"),
+        language: z
+          .string()
+          .regex(/^[a-zA-Z]{2}$/)
+          .transform((value) => value.toLowerCase())
+          .optional()
+          .describe("Two-letter language code for results, e.g. 'zh', 'en'"),
+        safe_search: z
+          .enum(["off", "moderate", "strict"])
+          .optional()
+          .describe("Safe-search level (default: engine default)"),
+        page: z
+          .number()
+          .int()
+          .min(1)
+          .max(10)
+          .optional()
+          .describe(
+            "1-based results page (default: 1). Prefer cursor for sequential paging; " +
+              "a page number re-runs every earlier page to skip their results."
+          ),
+        cursor: z
+          .string()
+          .optional()
+          .describe(
+            "next_cursor from a previous web_search call with the same query and filters"
+          ),
+        bypass_cache: z
+          .boolean()
+          .describe(
+            "Skip cached results and fetch fresh ones (default: false)"
+          )
+          .default(false),
+        timeout_ms: timeoutMsSchema.describe(
+          "Give up after this many milliseconds and return the results gathered so far"
+        ),
       },
       outputSchema: {
         query: z.string(),
         num_results: z.number(),
         total: z.number(),
         results: z.array(searchItemSchema),
+        page: z.number(),
+        next_cursor: z.string().nullable(),
+        cached: z.boolean(),
       },
     },
-    async ({ query, num_results }) => {
+    async (
+      {
+        query,
+        num_results,
+        engines,
+        include_domains,
+        exclude_domains,
+        time_range,
+        region,
+        language,
+        safe_search,
+        page,
+        cursor,
+        bypass_cache,
+        timeout_ms,
+      },
+      extra
+    ) => {
       if (!query || query.trim() === "") {
         return {
           content: [
@@ -628,7 +2875,25 @@ export const setupMCPServer = (): McpServer => {
         };
       }
       try {
-        const results = await webSearch(query, num_results);
+        const resultPage = await runToolCall("web_search", extra, () =>
+          webSearch(
+            query,
+            num_results,
+            engines,
+            {
+              includeDomains: include_domains,
+              excludeDomains: exclude_domains,
+              timeRange: time_range,
+              region,
+              language,
+              safeSearch: safe_search,
+            },
+            { cursor, page },
+            bypass_cache,
+            createCallContext(extra, timeout_ms)
+          )
+        );
+        const { results } = resultPage;
         return {
           content: [{ type: "text", text: JSON.stringify(results, null, 2) }],
           structuredContent: {
@@ -636,6 +2901,9 @@ export const setupMCPServer = (): McpServer => {
             num_results,
             total: results.length,
             results,
+            page: resultPage.page,
+            next_cursor: resultPage.nextCursor,
+            cached: resultPage.cached,
           },
         };
       } catch (e) {
@@ -650,38 +2918,127 @@ export const setupMCPServer = (): McpServer => {
   );
 
   // Tool: web_fetch
-  server.registerTool(
+  const webFetchTool = server.registerTool(
     "web_fetch",
     {
       title: "Web Fetch",
       description:
         "Fetch a web page and return its content. " +
-        "When simplify is enabled (default), removes useless HTML tags (script, style, iframe, etc.), " +
-        "extracts the main content, and converts it to clean Markdown format. " +
-        "Has a 10-second timeout.",
+        "When simplify is enabled (default), extracts the main article content Readability-style " +
+        "(scoring text and link density), converts it to clean Markdown, and reports the title, byline and publish date. " +
+        "format picks the output for HTML pages: 'markdown' (GFM tables, fenced code with its language, absolute links), " +
+        "'text', 'html', or 'json' (structured blocks: headings, paragraphs, lists, code, tables, quotes, images). " +
+        "selector narrows the page to the elements matching a CSS selector, or to the section under a heading with that text. " +
+        "Long documents are returned in chunks cut at paragraph or heading boundaries; " +
+        "pass next_start_index as start_index to read the next chunk. " +
+        "PDF, DOCX and EPUB documents are converted to Markdown with [Page N/total] / [Section N] markers. " +
+        "HTML pages also return a metadata object (document title, canonical URL, description, language, " +
+        "last-modified time, OpenGraph and Twitter cards, JSON-LD and the page's links resolved to absolute URLs). " +
+        "With mode 'links' the content is the page's link list instead, without ads and duplicates. " +
+        "Only public http(s) URLs are allowed; private, loopback and link-local addresses are blocked. " +
+        `Times out after ${config.timeouts.fetchMs / 1000} seconds unless timeout_ms is given.`,
       inputSchema: {
         url: z.string().describe("The URL to fetch"),
         max_char_size: z
           .number()
+          .int()
+          .min(1)
           .describe(
-            "Maximum character size of the returned content (default: 50000)"
+            `Maximum character size of the returned content (default: ${config.tools.maxCharSize})`
           )
-          .default(50000),
+          .default(config.tools.maxCharSize),
         simplify: z
           .boolean()
           .describe(
             "Whether to simplify the content by removing useless tags and converting to Markdown (default: true)"
           )
           .default(true),
+        format: z
+          .enum(["markdown", "text", "html", "json"])
+          .optional()
+          .describe(
+            "Output format for HTML pages: 'markdown', 'text' (plain text), 'html', or 'json' " +
+              "(one JSON block per line, also returned parsed as blocks). " +
+              "PDF, DOCX, EPUB and text files are always Markdown or text (default: markdown, html when simplify is false)"
+          ),
+        selector: z
+          .string()
+          .min(1)
+          .optional()
+          .describe(
+            "CSS selector (e.g. 'main table', '#install') or heading text (e.g. 'Getting started') " +
+              "to return only that part of the page instead of the extracted main content"
+          ),
+        start_index: z
+          .number()
+          .int()
+          .min(0)
+          .describe(
+            "Character offset to start reading from, e.g. next_start_index from a previous call (default: 0)"
+          )
+          .default(0),
+        bypass_cache: z
+          .boolean()
+          .describe(
+            "Skip cached results and fetch fresh ones (default: false)"
+          )
+          .default(false),
+        extractor: z
+          .enum(["readability", "heuristic"])
+          .describe(
+            "Main-content extractor when simplifying: 'readability' scores the DOM by text and link density " +
+              "(falls back to 'heuristic' when no article is found); 'heuristic' takes the first <main>/<article> block (default: readability)"
+          )
+          .default("readability"),
+        mode: z
+          .enum(["content", "links"])
+          .describe(
+            "'content' returns the page content; 'links' returns only the page's links as a Markdown list, " +
+              "resolved to absolute URLs, with ads and duplicates removed (default: content)"
+          )
+          .default("content"),
+        timeout_ms: timeoutMsSchema.describe(
+          `Timeout for downloading the document in milliseconds (default: ${config.timeouts.fetchMs})`
+        ),
       },
       outputSchema: {
         url: z.string(),
+        mode: z.enum(["content", "links"]),
         simplify: z.boolean(),
+        selector: z.string().nullable(),
+        format: z.enum(["html", "text", "pdf", "docx", "epub"]),
+        content_format: z.enum(["markdown", "text", "html", "json"]),
+        title: z.string().nullable(),
+        byline: z.string().nullable(),
+        published_time: z.string().nullable(),
+        extractor: z.enum(["readability", "heuristic"]).nullable(),
         content_length: z.number(),
         content: z.string(),
+        blocks: z.array(contentBlockSchema).optional(),
+        start_index: z.number(),
+        total_length: z.number(),
+        truncated: z.boolean(),
+        next_start_index: z.number().nullable(),
+        cached: z.boolean(),
+        metadata: pageMetadataSchema.nullable(),
+        links: z.array(pageLinkSchema).optional(),
       },
     },
-    async ({ url, max_char_size, simplify }) => {
+    async (
+      {
+        url,
+        max_char_size,
+        simplify,
+        format,
+        selector,
+        start_index,
+        bypass_cache,
+        extractor,
+        mode,
+        timeout_ms,
+      },
+      extra
+    ) => {
       if (!url || url.trim() === "") {
         return {
           content: [
@@ -694,14 +3051,529 @@ export const setupMCPServer = (): McpServer => {
         };
       }
       try {
-        const content = await webFetch(url, max_char_size, simplify);
+        const result = await runToolCall("web_fetch", extra, () =>
+          webFetch(
+            url,
+            max_char_size,
+            {
+              format: format ?? (simplify ? "markdown" : "html"),
+              simplify,
+              extractor,
+              selector,
+            },
+            start_index,
+            bypass_cache,
+            mode,
+            createCallContext(extra, timeout_ms)
+          )
+        );
+        const { content } = result;
+        const text =
+          result.nextStartIndex === null
+            ? content
+            : `${content}\n\n[Truncated: showing characters ${result.startIndex}-${result.nextStartIndex} of ${result.totalLength}. ` +
+              `Call web_fetch with start_index=${result.nextStartIndex} to continue.]`;
         return {
-          content: [{ type: "text", text: content }],
+          content: [{ type: "text", text }],
           structuredContent: {
             url,
+            mode,
             simplify,
+            selector: selector ?? null,
+            format: result.format,
+            content_format: result.contentFormat,
+            title: result.title,
+            byline: result.byline,
+            published_time: result.publishedTime,
+            extractor: result.extractor,
             content_length: content.length,
             content,
+            blocks:
+              result.contentFormat === "json"
+                ? parseBlockLines(content)
+                : undefined,
+            start_index: result.startIndex,
+            total_length: result.totalLength,
+            truncated: result.truncated,
+            next_start_index: result.nextStartIndex,
+            cached: result.cached,
+            metadata: result.metadata && toMetadataOutput(result.metadata),
+            links: result.links,
+          },
+        };
+      } catch (e) {
+        return {
+          content: [
+            { type: "text", text: `Error: ${(e as Error).message}` },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // Tool: web_fetch_many
+  const webFetchManyTool = server.registerTool(
+    "web_fetch_many",
+    {
+      title: "Web Fetch (batch)",
+      description:
+        "Fetch several web pages in one call, e.g. the top results of a web_search. " +
+        "Each URL goes through the same pipeline as web_fetch (main-content extraction, Markdown, document conversion, cache) " +
+        `and returns its first max_char_size characters. Pages are fetched ${config.tools.fetchConcurrency} at a time, ` +
+        `at most ${config.tools.fetchPerHost} per host. ` +
+        "A URL that fails is reported with its error without failing the others; " +
+        "use web_fetch with start_index to read past a truncated page.",
+      inputSchema: {
+        urls: z
+          .array(z.string().min(1))
+          .min(1)
+          .max(MAX_FETCH_MANY_URLS)
+          .describe(`The URLs to fetch (at most ${MAX_FETCH_MANY_URLS})`),
+        max_char_size: z
+          .number()
+          .int()
+          .min(1)
+          .describe(
+            `Maximum character size of each page's content (default: ${config.tools.maxCharSize})`
+          )
+          .default(config.tools.maxCharSize),
+        simplify: z
+          .boolean()
+          .describe(
+            "Whether to simplify the content by removing useless tags and converting to Markdown (default: true)"
+          )
+          .default(true),
+        bypass_cache: z
+          .boolean()
+          .describe(
+            "Skip cached results and fetch fresh ones (default: false)"
+          )
+          .default(false),
+        extractor: z
+          .enum(["readability", "heuristic"])
+          .describe(
+            "Main-content extractor when simplifying, as in web_fetch (default: readability)"
+          )
+          .default("readability"),
+        timeout_ms: timeoutMsSchema.describe(
+          `Timeout for downloading each document in milliseconds (default: ${config.timeouts.fetchMs})`
+        ),
+      },
+      outputSchema: {
+        results: z.array(
+          z.discriminatedUnion("ok", [
+            z.object({
+              url: z.string(),
+              ok: z.literal(true),
+              format: z.enum(["html", "text", "pdf", "docx", "epub"]),
+              title: z.string().nullable(),
+              byline: z.string().nullable(),
+              published_time: z.string().nullable(),
+              content_length: z.number(),
+              content: z.string(),
+              total_length: z.number(),
+              truncated: z.boolean(),
+              next_start_index: z.number().nullable(),
+              cached: z.boolean(),
+            }),
+            z.object({
+              url: z.string(),
+              ok: z.literal(false),
+              error: z.string(),
+            }),
+          ])
+        ),
+        succeeded: z.number(),
+        failed: z.number(),
+      },
+    },
+    async (
+      { urls, max_char_size, simplify, bypass_cache, extractor, timeout_ms },
+      extra
+    ) => {
+      const entries = await runToolCall("web_fetch_many", extra, () =>
+        webFetchMany(
+          urls,
+          max_char_size,
+          { format: simplify ? "markdown" : "html", simplify, extractor },
+          bypass_cache,
+          timeout_ms,
+          createCallContext(extra)
+        )
+      );
+      const results = entries.map((entry) =>
+        entry.ok
+          ? {
+              url: entry.url,
+              ok: true as const,
+              format: entry.result.format,
+              title: entry.result.title,
+              byline: entry.result.byline,
+              published_time: entry.result.publishedTime,
+              content_length: entry.result.content.length,
+              content: entry.result.content,
+              total_length: entry.result.totalLength,
+              truncated: entry.result.truncated,
+              next_start_index: entry.result.nextStartIndex,
+              cached: entry.result.cached,
+            }
+          : { url: entry.url, ok: false as const, error: entry.error }
+      );
+      const text = entries
+        .map((entry, i) => {
+          if (!entry.ok) {
+            return `## [${i + 1}] ${entry.url}\n\nError: ${entry.error}`;
+          }
+          const { result } = entry;
+          const heading = result.title
+            ? `## [${i + 1}] ${result.title}\nURL: ${entry.url}`
+            : `## [${i + 1}] ${entry.url}`;
+          const note =
+            result.nextStartIndex === null
+              ? ""
+              : `\n\n[Truncated: showing ${result.content.length} of ${result.totalLength} characters. ` +
+                `Call web_fetch with start_index=${result.nextStartIndex} to continue.]`;
+          return `${heading}\n\n${result.content}${note}`;
+        })
+        .join("\n\n---\n\n");
+      const succeeded = entries.filter((entry) => entry.ok).length;
+      return {
+        content: [{ type: "text", text }],
+        structuredContent: {
+          results,
+          succeeded,
+          failed: entries.length - succeeded,
+        },
+      };
+    }
+  );
+
+  // Tool: web_research
+  // zod checks defaults against .max() too, so keep the default within a
+  // smaller configured tools.maxCharSize.
+  const defaultResearchChars = Math.min(8000, config.tools.maxCharSize);
+  const webResearchTool = server.registerTool(
+    "web_research",
+    {
+      title: "Web Research",
+      description:
+        "Answer-oriented research in one call: searches the web, reads the top results like web_fetch_many, " +
+        "splits each page into passages along its headings and ranks the passages against the query with BM25. " +
+        "Returns the most relevant passages, best first, with their source URL, page title and section, " +
+        "within a total character budget, plus the list of pages read. " +
+        "Use web_fetch on a source URL to read a page in full.",
+      inputSchema: {
+        query: z
+          .string()
+          .describe(
+            "The question or keywords, e.g. 'node.js fetch proxy support'; also used to rank passages"
+          ),
+        num_pages: z
+          .number()
+          .int()
+          .min(1)
+          .max(MAX_RESEARCH_PAGES)
+          .describe(
+            `Number of search results to read (default: 5, at most ${MAX_RESEARCH_PAGES})`
+          )
+          .default(5),
+        max_chars: z
+          .number()
+          .int()
+          .min(1000)
+          .max(config.tools.maxCharSize)
+          .describe(
+            `Total character budget for the returned passages (default: ${defaultResearchChars})`
+          )
+          .default(defaultResearchChars),
+        engines: z
+          .array(z.string())
+          .optional()
+          .describe(
+            `Search engines to query (default: ${defaultEngines
+              .map((engine) => engine.id)
+              .join(", ")})`
+          ),
+        bypass_cache: z
+          .boolean()
+          .describe(
+            "Skip cached results and fetch fresh ones (default: false)"
+          )
+          .default(false),
+      },
+      outputSchema: {
+        query: z.string(),
+        passages: z.array(
+          z.object({
+            url: z.string(),
+            title: z.string(),
+            section: z.string(),
+            content: z.string(),
+            score: z.number(),
+          })
+        ),
+        sources: z.array(
+          z.object({
+            url: z.string(),
+            title: z.string(),
+            error: z.string().nullable(),
+            passages: z.number(),
+          })
+        ),
+        total_chars: z.number(),
+      },
+    },
+    async ({ query, num_pages, max_chars, engines, bypass_cache }, extra) => {
+      if (!query || query.trim() === "") {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "Error: query parameter is required and cannot be empty.",
+            },
+          ],
+          isError: true,
+        };
+      }
+      try {
+        const result = await runToolCall("web_research", extra, () =>
+          webResearch(
+            query,
+            num_pages,
+            max_chars,
+            engines,
+            bypass_cache,
+            createCallContext(extra)
+          )
+        );
+        const passagesText =
+          result.passages.length === 0
+            ? "No passage of the fetched pages matched the query."
+            : result.passages
+                .map((passage, i) => {
+                  const heading = passage.section
+                    ? `${passage.title} > ${passage.section}`
+                    : passage.title;
+                  return `## [${i + 1}] ${heading}\nURL: ${passage.url}\n\n${passage.content}`;
+                })
+                .join("\n\n---\n\n");
+        const sourcesText = result.sources
+          .map((source) =>
+            source.error
+              ? `- ${source.url} (failed: ${source.error})`
+              : `- ${source.title} - ${source.url} (${source.passages} passages)`
+          )
+          .join("\n");
+        return {
+          content: [
+            {
+              type: "text",
+              text: `${passagesText}\n\nSources:\n${sourcesText}`,
+            },
+          ],
+          structuredContent: {
+            query,
+            passages: result.passages,
+            sources: result.sources,
+            total_chars: result.totalChars,
+          },
+        };
+      } catch (e) {
+        return {
+          content: [
+            { type: "text", text: `Error: ${(e as Error).message}` },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // Tool: web_crawl
+  // Like web_research's max_chars, the default has to fit under .max().
+  const defaultCrawlChars = Math.min(10000, config.tools.maxCharSize);
+  const webCrawlTool = server.registerTool(
+    "web_crawl",
+    {
+      title: "Web Crawl",
+      description:
+        "Crawl a website from a seed URL, e.g. to ingest a documentation site. " +
+        "Reads the site's sitemap.xml when there is one, then follows links on the same site " +
+        "(the seed's host, with or without www.) breadth-first up to max_depth link hops and max_pages pages. " +
+        "include / exclude take path globs where * matches anything, e.g. '/docs/*'; the seed itself is always read. " +
+        "Every page goes through the web_fetch pipeline (main content as Markdown, documents converted) " +
+        "and is cut at max_char_size; a page that fails is reported with its error. " +
+        "Sends a progress notification per page when a progressToken is given.",
+      inputSchema: {
+        url: z.string().describe("The seed URL to start crawling from"),
+        max_pages: z
+          .number()
+          .int()
+          .min(1)
+          .max(MAX_CRAWL_PAGES)
+          .describe(
+            `Maximum number of pages to read, including the seed (default: 10, at most ${MAX_CRAWL_PAGES})`
+          )
+          .default(10),
+        max_depth: z
+          .number()
+          .int()
+          .min(0)
+          .max(MAX_CRAWL_DEPTH)
+          .describe(
+            "Maximum link hops from the seed; sitemap pages count as one hop, 0 reads only the seed (default: 2)"
+          )
+          .default(2),
+        include: z
+          .array(z.string())
+          .optional()
+          .describe(
+            "Only read pages whose path matches one of these globs, e.g. ['/docs/*']"
+          ),
+        exclude: z
+          .array(z.string())
+          .optional()
+          .describe(
+            "Skip pages whose path matches one of these globs, e.g. ['/blog/*', '*.pdf']"
+          ),
+        use_sitemap: z
+          .boolean()
+          .describe(
+            "Seed the crawl from /sitemap.xml when it exists (default: true)"
+          )
+          .default(true),
+        max_char_size: z
+          .number()
+          .int()
+          .min(1000)
+          .max(config.tools.maxCharSize)
+          .describe(
+            `Maximum character size of each page's content (default: ${defaultCrawlChars})`
+          )
+          .default(defaultCrawlChars),
+        bypass_cache: z
+          .boolean()
+          .describe(
+            "Skip cached results and fetch fresh ones (default: false)"
+          )
+          .default(false),
+        timeout_ms: timeoutMsSchema.describe(
+          `Timeout for downloading each page in milliseconds (default: ${config.timeouts.fetchMs})`
+        ),
+      },
+      outputSchema: {
+        url: z.string(),
+        sitemap_url: z.string().nullable(),
+        pages: z.array(
+          z.discriminatedUnion("ok", [
+            z.object({
+              url: z.string(),
+              depth: z.number(),
+              ok: z.literal(true),
+              format: z.enum(["html", "text", "pdf", "docx", "epub"]),
+              title: z.string().nullable(),
+              content_length: z.number(),
+              content: z.string(),
+              total_length: z.number(),
+              truncated: z.boolean(),
+              cached: z.boolean(),
+            }),
+            z.object({
+              url: z.string(),
+              depth: z.number(),
+              ok: z.literal(false),
+              error: z.string(),
+            }),
+          ])
+        ),
+        crawled: z.number(),
+        failed: z.number(),
+        limit_reached: z.boolean(),
+      },
+    },
+    async (
+      {
+        url,
+        max_pages,
+        max_depth,
+        include,
+        exclude,
+        use_sitemap,
+        max_char_size,
+        bypass_cache,
+        timeout_ms,
+      },
+      extra
+    ) => {
+      if (!url || url.trim() === "") {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "Error: url parameter is required and cannot be empty.",
+            },
+          ],
+          isError: true,
+        };
+      }
+      try {
+        const result = await runToolCall("web_crawl", extra, () =>
+          webCrawl(
+            url,
+            {
+              maxPages: max_pages,
+              maxDepth: max_depth,
+              maxCharSize: max_char_size,
+              include,
+              exclude,
+              useSitemap: use_sitemap,
+              bypassCache: bypass_cache,
+              timeoutMs: timeout_ms,
+            },
+            createCallContext(extra)
+          )
+        );
+        const pages = result.pages.map(({ url, depth, entry }) =>
+          entry.ok
+            ? {
+                url,
+                depth,
+                ok: true as const,
+                format: entry.result.format,
+                title: entry.result.title,
+                content_length: entry.result.content.length,
+                content: entry.result.content,
+                total_length: entry.result.totalLength,
+                truncated: entry.result.truncated,
+                cached: entry.result.cached,
+              }
+            : { url, depth, ok: false as const, error: entry.error }
+        );
+        const failed = pages.filter((page) => !page.ok).length;
+        const summary =
+          `Crawled ${pages.length} pages (${failed} failed)` +
+          (result.sitemapUrl ? ` using ${result.sitemapUrl}` : "") +
+          (result.limitReached
+            ? `; stopped at max_pages=${max_pages} with pages left.`
+            : ".");
+        const text = [
+          summary,
+          ...result.pages.map(({ url, depth, entry }, i) =>
+            entry.ok
+              ? `## [${i + 1}] ${entry.result.title ?? url}\nURL: ${url} (depth ${depth})\n\n${entry.result.content}`
+              : `## [${i + 1}] ${url}\n\nError: ${entry.error}`
+          ),
+        ].join("\n\n---\n\n");
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: {
+            url,
+            sitemap_url: result.sitemapUrl,
+            pages,
+            crawled: pages.length,
+            failed,
+            limit_reached: result.limitReached,
           },
         };
       } catch (e) {
@@ -715,5 +3587,18 @@ export const setupMCPServer = (): McpServer => {
     }
   );
 
+  if (options.allowedTools) {
+    const tools = {
+      web_search: webSearchTool,
+      web_fetch: webFetchTool,
+      web_fetch_many: webFetchManyTool,
+      web_research: webResearchTool,
+      web_crawl: webCrawlTool,
+    };
+    for (const [name, tool] of Object.entries(tools)) {
+      if (!options.allowedTools.includes(name)) tool.remove();
+    }
+  }
+
   return server;
 };
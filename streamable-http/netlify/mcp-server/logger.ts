@@ -0,0 +1,114 @@
+/**
+ * Structured logging for the server and its tools.
+ *
+ * Every entry is written as one JSON line (time, level, logger, message,
+ * request and trace IDs, extra fields) so Netlify function logs can be
+ * filtered. Entries logged while a tool call is running are also sent to
+ * that call's MCP client as `notifications/message`, filtered by the level
+ * the client chose with `logging/setLevel`.
+ *
+ * The active call is tracked with AsyncLocalStorage, so helpers deep in the
+ * fetch pipeline log without having a request object passed down to them.
+ *
+ * Environment:
+ *   LOG_LEVEL   minimum level written to the log output, and the default
+ *               level sent to clients that never call logging/setLevel
+ *               (debug | info | notice | warning | error ..., default info)
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import {
+  LoggingLevelSchema,
+  type LoggingLevel,
+} from "@modelcontextprotocol/sdk/types.js";
+
+export type { LoggingLevel };
+
+export type LogData = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, data?: LogData): void;
+  info(message: string, data?: LogData): void;
+  warning(message: string, data?: LogData): void;
+  error(message: string, data?: LogData): void;
+}
+
+/** Routing for entries logged during one tool call. */
+export interface LogContext {
+  /** JSON-RPC ID of the tools/call request. */
+  requestId?: string | number;
+  /** Correlates the entries of one call, including across services. */
+  traceId: string;
+  /** Sends an entry to the MCP client; filtering by level is up to it. */
+  notify?: (level: LoggingLevel, logger: string, data: LogData) => void;
+}
+
+// Ordered from least to most severe, as in the MCP spec.
+const LEVELS = LoggingLevelSchema.options;
+
+export function isLevelEnabled(
+  level: LoggingLevel,
+  threshold: LoggingLevel
+): boolean {
+  return LEVELS.indexOf(level) >= LEVELS.indexOf(threshold);
+}
+
+function parseLevel(value: string | undefined): LoggingLevel {
+  const parsed = LoggingLevelSchema.safeParse(value?.toLowerCase());
+  return parsed.success ? parsed.data : "info";
+}
+
+export const DEFAULT_LOG_LEVEL = parseLevel(process.env.LOG_LEVEL);
+
+let writeLine = (line: string) => {
+  process.stdout.write(`${line}\n`);
+};
+
+/**
+ * Replaces where JSON lines go, e.g. stderr for the stdio transport, where
+ * stdout carries the protocol.
+ */
+export function setLogOutput(write: (line: string) => void): void {
+  writeLine = write;
+}
+
+const storage = new AsyncLocalStorage<LogContext>();
+
+/** Runs `fn` with its log entries attributed to (and sent to) one call. */
+export function runWithLogContext<T>(context: LogContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+function errorToData(data: LogData | undefined): LogData | undefined {
+  // Error objects serialize to "{}"; keep what's useful.
+  if (!(data?.error instanceof Error)) return data;
+  return { ...data, error: data.error.message };
+}
+
+export function createLogger(name: string): Logger {
+  const log = (level: LoggingLevel, message: string, data?: LogData) => {
+    const context = storage.getStore();
+    const fields = {
+      message,
+      ...errorToData(data),
+      ...(context && { requestId: context.requestId, traceId: context.traceId }),
+    };
+    if (isLevelEnabled(level, DEFAULT_LOG_LEVEL)) {
+      writeLine(
+        JSON.stringify({
+          time: new Date().toISOString(),
+          level,
+          logger: name,
+          ...fields,
+        })
+      );
+    }
+    context?.notify?.(level, name, fields);
+  };
+  return {
+    debug: (message, data) => log("debug", message, data),
+    info: (message, data) => log("info", message, data),
+    warning: (message, data) => log("warning", message, data),
+    error: (message, data) => log("error", message, data),
+  };
+}
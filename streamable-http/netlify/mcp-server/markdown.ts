@@ -0,0 +1,156 @@
+/**
+ * HTML to Markdown conversion shared by web pages and converted documents.
+ *
+ * On top of Turndown's defaults: tables become GFM tables, code blocks keep
+ * the language of the highlighter classes, and links and images resolve
+ * against the page URL so they still work outside the page.
+ */
+
+import TurndownService from "turndown";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("markdown");
+
+/**
+ * Language of a code block from the classes highlighters put on the
+ * <code>, the <pre> or its wrapper: `language-ts` / `lang-ts` (Prism,
+ * highlight.js, Markdown renderers), `highlight-source-ts` (GitHub) or
+ * `brush: ts` (SyntaxHighlighter). Empty when none is declared.
+ */
+export function getCodeLanguage(
+  classNames: Array<string | null | undefined>
+): string {
+  for (const className of classNames) {
+    const match = className?.match(
+      /(?:^|\s)(?:language|lang|highlight-source)-([\w+#.-]+)|brush:\s*([\w+#-]+)/i
+    );
+    if (match) return (match[1] ?? match[2]).toLowerCase();
+  }
+  return "";
+}
+
+/** `href` resolved against `baseUrl`; unchanged without a base. */
+function resolveHref(href: string, baseUrl: string | undefined): string {
+  if (!baseUrl) return href;
+  try {
+    return new URL(href, baseUrl).href;
+  } catch {
+    return href;
+  }
+}
+
+function escapeTableCell(text: string): string {
+  return text.replace(/\s*\n\s*/g, " ").replace(/\|/g, "\\|").trim();
+}
+
+function addRules(turndownService: TurndownService, baseUrl?: string): void {
+  turndownService.addRule("absoluteLink", {
+    filter: (node) => node.nodeName === "A" && !!node.getAttribute("href"),
+    replacement: (content, node) => {
+      const href = (node as HTMLElement).getAttribute("href")!.trim();
+      if (!content.trim() || /^javascript:/i.test(href)) return content;
+      const title = (node as HTMLElement).getAttribute("title");
+      const titlePart = title ? ` "${title.replace(/"/g, '\\"')}"` : "";
+      return `[${content}](${resolveHref(href, baseUrl)}${titlePart})`;
+    },
+  });
+
+  turndownService.addRule("absoluteImage", {
+    filter: "img",
+    replacement: (_content, node) => {
+      const element = node as HTMLElement;
+      // Lazy-loading scripts keep the real source in data-src.
+      const src =
+        element.getAttribute("src") || element.getAttribute("data-src");
+      if (!src) return "";
+      const alt = (element.getAttribute("alt") ?? "").replace(/\s+/g, " ");
+      return `![${alt}](${resolveHref(src.trim(), baseUrl)})`;
+    },
+  });
+
+  turndownService.addRule("fencedCodeWithLanguage", {
+    filter: "pre",
+    replacement: (_content, node) => {
+      const pre = node as HTMLElement;
+      const code = pre.querySelector("code");
+      const language = getCodeLanguage([
+        code?.getAttribute("class"),
+        pre.getAttribute("class"),
+        (pre.parentNode as HTMLElement | null)?.getAttribute?.("class"),
+      ]);
+      const text = (pre.textContent ?? "").replace(/\n+$/, "");
+      const longestRun = Math.max(
+        0,
+        ...(text.match(/`+/g) ?? []).map((run) => run.length)
+      );
+      const fence = "`".repeat(Math.max(3, longestRun + 1));
+      return `\n\n${fence}${language}\n${text}\n${fence}\n\n`;
+    },
+  });
+
+  turndownService.addRule("gfmTable", {
+    // Tables nested in tables are page layout, not data.
+    filter: (node) =>
+      node.nodeName === "TABLE" && !node.querySelector("table"),
+    replacement: (content, node) => {
+      const table = node as HTMLTableElement;
+      // Turndown's DOM returns NodeLists that aren't iterable.
+      const rows = Array.from(table.querySelectorAll("tr")).map((row) =>
+        Array.from(row.querySelectorAll("th, td")).map((cell) =>
+          escapeTableCell(turndownService.turndown(cell.innerHTML))
+        )
+      );
+      const columns = Math.max(0, ...rows.map((row) => row.length));
+      if (rows.length < 2 && columns < 2) return content;
+      const line = (cells: string[]) =>
+        `| ${Array.from({ length: columns }, (_, i) => cells[i] ?? "").join(
+          " | "
+        )} |`;
+      // GFM needs a header row; a table without one gets an empty header.
+      const hasHeader =
+        !!table.querySelector("thead") ||
+        !!table.querySelector("tr")?.querySelector("th");
+      const header = hasHeader ? rows.shift()! : [];
+      const caption = table.querySelector("caption")?.textContent?.trim();
+      return [
+        "\n\n",
+        caption ? `${caption}\n\n` : "",
+        line(header),
+        "\n",
+        line(Array(columns).fill("---")),
+        ...rows.map((row) => `\n${line(row)}`),
+        "\n\n",
+      ].join("");
+    },
+  });
+}
+
+export function htmlToMarkdown(html: string, baseUrl?: string): string {
+  const turndownService = new TurndownService({
+    headingStyle: "atx",
+    codeBlockStyle: "fenced",
+    bulletListMarker: "-",
+  });
+  turndownService.remove([
+    "script",
+    "style",
+    "iframe",
+    "noscript",
+    "svg",
+    "nav",
+    "footer",
+  ]);
+  addRules(turndownService, baseUrl);
+  try {
+    let md = turndownService.turndown(html);
+    md = md.replace(/\n{3,}/g, "\n\n");
+    md = md.replace(/[ \t]+$/gm, "");
+    return md.trim();
+  } catch (e) {
+    log.error("conversion error", { error: e });
+    return html
+      .replace(/<[^>]+>/g, " ")
+      .replace(/\s+/g, " ")
+      .trim();
+  }
+}
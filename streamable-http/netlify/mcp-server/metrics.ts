@@ -0,0 +1,198 @@
+/**
+ * Prometheus metrics, rendered in the text exposition format at /metrics.
+ *
+ * Counters and histograms live in the memory of one instance, like the
+ * health registry, so on Netlify each scrape sees the instance that served
+ * it. Rates are what matters here (captchas per search, fallbacks per
+ * DuckDuckGo search, cache hits per lookup), and Prometheus handles the
+ * resets of short-lived instances in `rate()`.
+ *
+ * Labels are kept to bounded sets: tool names, engine ids, mirror hosts,
+ * upstream labels and HTTP status codes, never URLs or queries.
+ */
+
+export type Labels = Record<string, string>;
+
+export interface Counter {
+  inc(labels?: Labels, value?: number): void;
+  /** Sum over the series whose labels include `labels`. */
+  get(labels?: Labels): number;
+}
+
+export interface Histogram {
+  observe(labels: Labels, value: number): void;
+}
+
+interface Metric {
+  name: string;
+  help: string;
+  type: "counter" | "histogram";
+  render(): string[];
+}
+
+const registry: Metric[] = [];
+
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/\n/g, "\\n")
+    .replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return "";
+  const pairs = entries.map(
+    ([name, value]) => `${name}="${escapeLabelValue(value)}"`
+  );
+  return `{${pairs.join(",")}}`;
+}
+
+/** Series key that ignores the order labels were given in. */
+function getSeriesKey(labels: Labels): string {
+  return JSON.stringify(
+    Object.entries(labels).sort(([a], [b]) => (a < b ? -1 : 1))
+  );
+}
+
+function matchesLabels(labels: Labels, filter: Labels): boolean {
+  return Object.entries(filter).every(
+    ([name, value]) => labels[name] === value
+  );
+}
+
+export function createCounter(name: string, help: string): Counter {
+  const series = new Map<string, { labels: Labels; value: number }>();
+  registry.push({
+    name,
+    help,
+    type: "counter",
+    render: () =>
+      [...series.values()].map(
+        ({ labels, value }) => `${name}${formatLabels(labels)} ${value}`
+      ),
+  });
+  return {
+    inc(labels = {}, value = 1) {
+      const key = getSeriesKey(labels);
+      const entry = series.get(key) ?? { labels, value: 0 };
+      entry.value += value;
+      series.set(key, entry);
+    },
+    get(labels = {}) {
+      let total = 0;
+      for (const entry of series.values()) {
+        if (matchesLabels(entry.labels, labels)) total += entry.value;
+      }
+      return total;
+    },
+  };
+}
+
+// Seconds; covers a cache hit up to a web_fetch that runs into its timeout.
+const DEFAULT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+export function createHistogram(
+  name: string,
+  help: string,
+  buckets: number[] = DEFAULT_BUCKETS
+): Histogram {
+  const series = new Map<
+    string,
+    { labels: Labels; counts: number[]; sum: number; count: number }
+  >();
+  registry.push({
+    name,
+    help,
+    type: "histogram",
+    render: () =>
+      [...series.values()].flatMap(({ labels, counts, sum, count }) => [
+        // Bucket counts are cumulative in the exposition format.
+        ...buckets.map(
+          (bound, i) =>
+            `${name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[i]}`
+        ),
+        `${name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`,
+        `${name}_sum${formatLabels(labels)} ${sum}`,
+        `${name}_count${formatLabels(labels)} ${count}`,
+      ]),
+  });
+  return {
+    observe(labels, value) {
+      const key = getSeriesKey(labels);
+      const entry = series.get(key) ?? {
+        labels,
+        counts: buckets.map(() => 0),
+        sum: 0,
+        count: 0,
+      };
+      buckets.forEach((bound, i) => {
+        if (value <= bound) entry.counts[i]++;
+      });
+      entry.sum += value;
+      entry.count++;
+      series.set(key, entry);
+    },
+  };
+}
+
+export function renderMetrics(): string {
+  const lines = registry.flatMap((metric) => [
+    `# HELP ${metric.name} ${metric.help}`,
+    `# TYPE ${metric.name} ${metric.type}`,
+    ...metric.render(),
+  ]);
+  return `${lines.join("\n")}\n`;
+}
+
+// ============================================================================
+// Server metrics
+// ============================================================================
+
+/** Labels: tool, status (success | error). */
+export const toolCalls = createCounter(
+  "orz_tool_calls_total",
+  "Tool calls by tool and status."
+);
+
+/** Labels: tool. */
+export const toolCallDuration = createHistogram(
+  "orz_tool_call_duration_seconds",
+  "Tool call latency in seconds."
+);
+
+/** Labels: engine, outcome (success | captcha | empty | error). */
+export const engineSearches = createCounter(
+  "orz_engine_searches_total",
+  "Search engine requests by outcome."
+);
+
+/** Labels: engine. */
+export const engineResults = createCounter(
+  "orz_engine_results_total",
+  "Results returned by each search engine before merging."
+);
+
+/** Labels: source (primary | fallback), mirror, outcome. */
+export const duckDuckGoAttempts = createCounter(
+  "orz_duckduckgo_attempts_total",
+  "DuckDuckGo endpoint attempts by mirror and outcome."
+);
+
+/** Labels: reason (captcha | error | circuit_open). */
+export const duckDuckGoFallbacks = createCounter(
+  "orz_duckduckgo_fallbacks_total",
+  "DuckDuckGo searches that fell back to the mirrors."
+);
+
+/** Labels: upstream (timedFetch label), status (HTTP code, error or aborted). */
+export const upstreamResponses = createCounter(
+  "orz_upstream_responses_total",
+  "Upstream responses by status code; failed requests count as error or aborted."
+);
+
+/** Labels: store, result (hit | miss). */
+export const cacheLookups = createCounter(
+  "orz_cache_lookups_total",
+  "Response cache lookups by result."
+);
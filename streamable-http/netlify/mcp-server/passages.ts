@@ -0,0 +1,176 @@
+/**
+ * Markdown chunking and passage ranking.
+ *
+ * web_fetch pages long documents with `findChunkEnd`. web_research splits
+ * fetched pages into heading-aware passages and ranks them against the query
+ * with BM25, locally and without any model.
+ */
+
+/**
+ * Picks where a chunk ending near `limit` should stop: before the last
+ * heading, else after the last blank line, line break or sentence end in
+ * the back half of the window. Falls back to a hard cut at `limit`. The end
+ * is always past `start`, so paging through a document terminates.
+ */
+export function findChunkEnd(
+  content: string,
+  start: number,
+  limit: number
+): number {
+  const cut = Math.max(Math.floor(limit), start + 1);
+  if (cut >= content.length) return content.length;
+  const minEnd = start + Math.floor((cut - start) / 2);
+  const window = content.substring(start, cut);
+  const boundaries: Array<[RegExp, number]> = [
+    [/\n(?=#{1,6} )/g, 1],
+    [/\n\n/g, 2],
+    [/\n/g, 1],
+    [/[.!?](?=\s)|[。！？]/g, 1],
+  ];
+  for (const [pattern, offset] of boundaries) {
+    let best = -1;
+    for (const match of window.matchAll(pattern)) {
+      best = start + match.index! + offset;
+    }
+    if (best > minEnd) return best;
+  }
+  return cut;
+}
+
+// ============================================================================
+// Chunking
+// ============================================================================
+
+export interface Passage {
+  /** Headings the passage sits under, outermost first. */
+  headings: string[];
+  text: string;
+}
+
+/**
+ * Splits Markdown at its headings, keeping the heading trail of every
+ * section, and cuts sections longer than `maxChars` at paragraph or sentence
+ * boundaries. Headings inside fenced code blocks don't count.
+ */
+export function splitPassages(
+  markdown: string,
+  maxChars: number = 1200
+): Passage[] {
+  const passages: Passage[] = [];
+  const trail: Array<{ level: number; title: string }> = [];
+  let headings: string[] = [];
+  let lines: string[] = [];
+  let inFence = false;
+
+  const flush = () => {
+    const section = lines.join("\n").trim();
+    lines = [];
+    for (let start = 0; start < section.length; ) {
+      const end = findChunkEnd(section, start, start + maxChars);
+      const text = section.substring(start, end).trim();
+      if (text) passages.push({ headings, text });
+      start = end;
+    }
+  };
+
+  for (const line of markdown.split("\n")) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    const heading = inFence ? null : /^(#{1,6})\s+(.+?)\s*#*\s*$/.exec(line);
+    if (!heading) {
+      lines.push(line);
+      continue;
+    }
+    flush();
+    const level = heading[1].length;
+    while (trail.length > 0 && trail[trail.length - 1].level >= level) {
+      trail.pop();
+    }
+    trail.push({ level, title: heading[2] });
+    headings = trail.map((entry) => entry.title);
+  }
+  flush();
+  return passages;
+}
+
+// ============================================================================
+// BM25
+// ============================================================================
+
+const STOP_WORDS = new Set(
+  (
+    "a an and are as at be but by for from has have how in is it its of on " +
+    "or that the this to was were what when where which who why will with"
+  ).split(" ")
+);
+
+// Scripts written without spaces between words.
+const CJK_RUN =
+  /([\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]+)/u;
+
+/**
+ * Lowercased words without English stop words. Han, kana and hangul runs
+ * have no word breaks, so they become overlapping character pairs instead.
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+    // split() with a capture group alternates other text and CJK runs.
+    word.split(CJK_RUN).forEach((part, i) => {
+      if (!part) return;
+      if (i % 2 === 0) {
+        if (!STOP_WORDS.has(part)) tokens.push(part);
+      } else if (part.length === 1) {
+        tokens.push(part);
+      } else {
+        for (let j = 0; j < part.length - 1; j++) {
+          tokens.push(part.substring(j, j + 2));
+        }
+      }
+    });
+  }
+  return tokens;
+}
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/**
+ * Scores every document against `query` with Okapi BM25, using the
+ * documents themselves as the corpus. Returns one score per document, in
+ * order; 0 means no query term occurs.
+ */
+export function scoreBm25(query: string, documents: string[]): number[] {
+  const queryTerms = [...new Set(tokenize(query))];
+  const termCounts = documents.map((document) => {
+    const counts = new Map<string, number>();
+    for (const token of tokenize(document)) {
+      counts.set(token, (counts.get(token) ?? 0) + 1);
+    }
+    return counts;
+  });
+  const lengths = termCounts.map((counts) =>
+    [...counts.values()].reduce((sum, count) => sum + count, 0)
+  );
+  const averageLength =
+    lengths.reduce((sum, length) => sum + length, 0) / (lengths.length || 1);
+  const idf = new Map(
+    queryTerms.map((term) => {
+      const df = termCounts.filter((counts) => counts.has(term)).length;
+      return [
+        term,
+        Math.log(1 + (documents.length - df + 0.5) / (df + 0.5)),
+      ] as const;
+    })
+  );
+
+  return termCounts.map((counts, i) => {
+    const norm = 1 - BM25_B + BM25_B * (lengths[i] / (averageLength || 1));
+    let score = 0;
+    for (const term of queryTerms) {
+      const tf = counts.get(term) ?? 0;
+      if (tf === 0) continue;
+      score += (idf.get(term)! * tf * (BM25_K1 + 1)) / (tf + BM25_K1 * norm);
+    }
+    return score;
+  });
+}
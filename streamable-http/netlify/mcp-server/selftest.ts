@@ -0,0 +1,221 @@
+/**
+ * Parser self-test for /health?selftest=1.
+ *
+ * Runs every result-page parser against a stored fixture: a trimmed copy of
+ * the engine's markup with two organic results. A check fails when a parser
+ * no longer finds the expected URLs and titles, or when captcha detection
+ * stops recognizing a challenge page. When an engine changes its markup,
+ * refresh its fixture from a live page and fix the parser until the check
+ * passes again; a deploy with a failing self-test has broken search.
+ */
+
+import {
+  isBraveChallengeHtml,
+  isDuckDuckGoCaptchaHtml,
+  parseBing,
+  parseBrave,
+  parseDuckDuckGo,
+  parseDuckDuckGoNextPage,
+  parseMojeek,
+  parseSearxng,
+} from "./index.js";
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const BRAVE_FIXTURE = `
+<div id="results" class="results">
+<div class="snippet svelte-jmfu5f" data-pos="0" data-type="web">
+  <div class="result-wrapper">
+    <a href="https://nodejs.org/en" target="_self" class="heading-serpresult">
+      <div class="site-name-content"><div class="desktop-small-semibold t-primary">nodejs.org</div></div>
+      <div class="title search-snippet-title" title="Node.js — Run JavaScript Everywhere">Node.js — Run JavaScript Everywhere</div>
+    </a>
+    <div class="generic-snippet"><div class="content desktop-default-regular t-primary line-clamp-dynamic"><strong>Node.js</strong>® is a free, open-source, cross-platform JavaScript runtime environment.</div></div>
+  </div>
+</div>
+<div class="snippet svelte-jmfu5f" data-pos="1" data-type="web">
+  <div class="result-wrapper">
+    <a href="https://github.com/nodejs/node" target="_self" class="heading-serpresult">
+      <div class="site-name-content"><div class="desktop-small-semibold t-primary">github.com</div></div>
+      <div class="title search-snippet-title" title="GitHub - nodejs/node: Node.js JavaScript runtime">GitHub - nodejs/node: Node.js JavaScript runtime</div>
+    </a>
+    <div class="snippet-description desktop-default-regular">Node.js JavaScript runtime ✨🐢🚀✨.</div>
+  </div>
+</div>
+</div>`;
+
+const BRAVE_CHALLENGE_FIXTURE = `
+<html><head><title>Brave Search</title></head>
+<body><main class="captcha-page">
+  <h1>Confirm you're a human being</h1>
+  <form method="post" action="/search/captcha"><button type="submit">I'm not a robot</button></form>
+</main></body></html>`;
+
+const DUCKDUCKGO_FIXTURE = `
+<div class="serp__results"><div id="links" class="results">
+<div class="result results_links results_links_deep web-result">
+  <div class="links_main links_deep result__body">
+    <h2 class="result__title"><a rel="nofollow" class="result__a" href="//duckduckgo.com/l/?uddg=https%3A%2F%2Fnodejs.org%2Fen&amp;rut=1a2b">Node.js — Run JavaScript Everywhere</a></h2>
+    <a class="result__snippet" href="//duckduckgo.com/l/?uddg=https%3A%2F%2Fnodejs.org%2Fen&amp;rut=1a2b"><b>Node.js</b>® is a free, open-source, cross-platform JavaScript runtime environment.</a>
+  </div>
+</div>
+<div class="result results_links results_links_deep web-result">
+  <div class="links_main links_deep result__body">
+    <h2 class="result__title"><a rel="nofollow" class="result__a" href="//duckduckgo.com/l/?uddg=https%3A%2F%2Fgithub.com%2Fnodejs%2Fnode&amp;rut=3c4d">GitHub - nodejs/node: Node.js JavaScript runtime</a></h2>
+    <a class="result__snippet" href="//duckduckgo.com/l/?uddg=https%3A%2F%2Fgithub.com%2Fnodejs%2Fnode&amp;rut=3c4d"><b>Node.js</b> JavaScript runtime.</a>
+  </div>
+</div>
+<div class="nav-link">
+  <form action="/html/" method="post">
+    <input type="submit" class="btn btn--alt" value="Next" />
+    <input type="hidden" name="q" value="nodejs" />
+    <input type="hidden" name="s" value="10" />
+    <input type="hidden" name="nextParams" value="" />
+    <input type="hidden" name="v" value="l" />
+    <input type="hidden" name="o" value="json" />
+    <input type="hidden" name="dc" value="11" />
+    <input type="hidden" name="api" value="d.js" />
+  </form>
+</div>
+</div></div>`;
+
+const DUCKDUCKGO_CAPTCHA_FIXTURE = `
+<div class="anomaly-modal__modal" data-testid="anomaly-modal">
+  <div class="anomaly-modal__title">Unfortunately, bots use DuckDuckGo too.</div>
+  <div class="anomaly-modal__description">Please complete the following challenge to confirm this search was made by a human.</div>
+</div>`;
+
+const BING_FIXTURE = `
+<ol id="b_results" class="">
+<li class="b_algo" data-id iid="SERP.5021">
+  <div class="b_tpcn"><a class="tilk" href="https://nodejs.org/en"><div class="tptt">Node.js</div></a></div>
+  <h2><a href="https://www.bing.com/ck/a?!&amp;&amp;p=8f1e&amp;ptn=3&amp;ver=2&amp;u=a1aHR0cHM6Ly9ub2RlanMub3JnL2Vu&amp;ntb=1" h="ID=SERP,5021.1">Node.js — Run JavaScript Everywhere</a></h2>
+  <div class="b_caption"><p class="b_lineclamp2"><strong>Node.js</strong>® is a free, open-source, cross-platform JavaScript runtime environment.</p></div>
+</li>
+<li class="b_algo" data-id iid="SERP.5034">
+  <h2><a href="https://github.com/nodejs/node" h="ID=SERP,5034.1">GitHub - nodejs/node: Node.js JavaScript runtime</a></h2>
+  <div class="b_caption"><p class="b_lineclamp2"><strong>Node.js</strong> JavaScript runtime.</p></div>
+</li>
+</ol>`;
+
+const MOJEEK_FIXTURE = `
+<ul class="results-standard">
+<li class="r1">
+  <a class="ob" href="https://nodejs.org/en"><p class="i">nodejs.org › en</p></a>
+  <h2><a class="title" href="https://nodejs.org/en">Node.js — Run JavaScript Everywhere</a></h2>
+  <p class="s"><strong>Node.js</strong>® is a free, open-source, cross-platform JavaScript runtime environment.</p>
+</li>
+<li class="r2">
+  <a class="ob" href="https://github.com/nodejs/node"><p class="i">github.com › nodejs › node</p></a>
+  <h2><a class="title" href="https://github.com/nodejs/node">GitHub - nodejs/node: Node.js JavaScript runtime</a></h2>
+  <p class="s"><strong>Node.js</strong> JavaScript runtime.</p>
+</li>
+</ul>`;
+
+const SEARXNG_FIXTURE = {
+  query: "nodejs",
+  number_of_results: 0,
+  results: [
+    {
+      url: "https://nodejs.org/en",
+      title: "Node.js — Run JavaScript Everywhere",
+      content:
+        "Node.js® is a free, open-source, cross-platform JavaScript runtime environment.",
+      engine: "duckduckgo",
+      engines: ["duckduckgo", "brave"],
+      score: 4,
+    },
+    {
+      url: "https://github.com/nodejs/node",
+      title: "GitHub - nodejs/node: Node.js JavaScript runtime",
+      content: "Node.js JavaScript runtime.",
+      engine: "brave",
+      engines: ["brave"],
+      score: 1,
+    },
+  ],
+};
+
+const EXPECTED_RESULTS = [
+  { url: "https://nodejs.org/en", title: "Node.js — Run JavaScript Everywhere" },
+  {
+    url: "https://github.com/nodejs/node",
+    title: "GitHub - nodejs/node: Node.js JavaScript runtime",
+  },
+];
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+export interface SelfTestCheck {
+  name: string;
+  ok: boolean;
+  /** What didn't match, when the check failed. */
+  error?: string;
+}
+
+export interface SelfTestReport {
+  ok: boolean;
+  checks: SelfTestCheck[];
+}
+
+/** Parsed results must match the expected URLs in order, titles included. */
+function checkResults(
+  results: { url: string; title: string; summary: string }[]
+): string | undefined {
+  if (results.length !== EXPECTED_RESULTS.length) {
+    return `expected ${EXPECTED_RESULTS.length} results, got ${results.length}`;
+  }
+  for (const [i, expected] of EXPECTED_RESULTS.entries()) {
+    const result = results[i];
+    if (result.url !== expected.url) {
+      return `result ${i + 1}: expected url ${expected.url}, got ${result.url}`;
+    }
+    if (!result.title.includes(expected.title)) {
+      return `result ${i + 1}: expected title "${expected.title}", got "${result.title}"`;
+    }
+    if (!result.summary) {
+      return `result ${i + 1}: summary is empty`;
+    }
+  }
+  return undefined;
+}
+
+function check(name: string, run: () => string | undefined): SelfTestCheck {
+  try {
+    const error = run();
+    return error ? { name, ok: false, error } : { name, ok: true };
+  } catch (e) {
+    return { name, ok: false, error: (e as Error).message };
+  }
+}
+
+export function runParserSelfTest(): SelfTestReport {
+  const checks = [
+    check("brave", () => checkResults(parseBrave(BRAVE_FIXTURE))),
+    check("brave/challenge", () =>
+      isBraveChallengeHtml(BRAVE_CHALLENGE_FIXTURE) &&
+      !isBraveChallengeHtml(BRAVE_FIXTURE)
+        ? undefined
+        : "challenge page not told apart from results"
+    ),
+    check("duckduckgo", () => checkResults(parseDuckDuckGo(DUCKDUCKGO_FIXTURE))),
+    check("duckduckgo/next-page", () => {
+      const token = parseDuckDuckGoNextPage(DUCKDUCKGO_FIXTURE);
+      return token === "10:11" ? undefined : `expected 10:11, got ${token}`;
+    }),
+    check("duckduckgo/captcha", () =>
+      isDuckDuckGoCaptchaHtml(DUCKDUCKGO_CAPTCHA_FIXTURE) &&
+      !isDuckDuckGoCaptchaHtml(DUCKDUCKGO_FIXTURE)
+        ? undefined
+        : "captcha page not told apart from results"
+    ),
+    check("bing", () => checkResults(parseBing(BING_FIXTURE))),
+    check("mojeek", () => checkResults(parseMojeek(MOJEEK_FIXTURE))),
+    check("searxng", () => checkResults(parseSearxng(SEARXNG_FIXTURE))),
+  ];
+  return { ok: checks.every((c) => c.ok), checks };
+}
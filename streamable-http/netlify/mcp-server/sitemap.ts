@@ -0,0 +1,33 @@
+/**
+ * sitemap.xml parsing for web_crawl.
+ *
+ * Handles both plain sitemaps (<urlset>) and sitemap indexes (<sitemapindex>)
+ * with a tolerant regex scan rather than an XML parser, since real-world
+ * sitemaps are often not well-formed.
+ */
+
+import { decodeHtmlEntities } from "./html.js";
+
+export interface ParsedSitemap {
+  /** Page URLs listed in <url><loc>. */
+  urls: string[];
+  /** Child sitemaps listed in a sitemap index. */
+  sitemaps: string[];
+}
+
+function readLocs(xml: string, element: "url" | "sitemap"): string[] {
+  const locs: string[] = [];
+  const pattern = new RegExp(
+    `<${element}\\b[^>]*>[\\s\\S]*?<loc>\\s*(?:<!\\[CDATA\\[)?([\\s\\S]*?)(?:\\]\\]>)?\\s*<\\/loc>`,
+    "gi"
+  );
+  for (const match of xml.matchAll(pattern)) {
+    const loc = decodeHtmlEntities(match[1]).trim();
+    if (loc) locs.push(loc);
+  }
+  return locs;
+}
+
+export function parseSitemap(xml: string): ParsedSitemap {
+  return { urls: readLocs(xml, "url"), sitemaps: readLocs(xml, "sitemap") };
+}
@@ -0,0 +1,174 @@
+/**
+ * Outbound URL policy for web_fetch.
+ *
+ * The hosted endpoint fetches whatever URL a caller passes, so every request
+ * (and every hop of a redirect chain) is checked before it leaves:
+ * - only http: and https: URLs
+ * - the host must resolve to public addresses only: loopback, private
+ *   (RFC 1918 / ULA), link-local (incl. cloud metadata at 169.254.169.254),
+ *   CGNAT, multicast and reserved ranges are rejected
+ * - optional operator allowlist / denylist of domains
+ *
+ * Settings come from the `urlPolicy` section of the server configuration
+ * (config.ts), where the URL_ALLOWLIST, URL_DENYLIST, ALLOW_PRIVATE_NETWORK
+ * and MAX_REDIRECTS variables also land.
+ */
+
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
+import { getConfig } from "./config.js";
+
+export class UrlPolicyError extends Error {
+  constructor(message: string) {
+    super(`Blocked by URL policy: ${message}`);
+    this.name = "UrlPolicyError";
+  }
+}
+
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["100::", 64],
+  ["2001:db8::", 32],
+  // 6to4 relays to the IPv4 address in bits 16-48, which may be private.
+  ["2002::", 16],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * IPv4-mapped IPv6 addresses (::ffff:127.0.0.1, serialized by URL and DNS
+ * as ::ffff:7f00:1) reach the IPv4 host, so check them as IPv4.
+ */
+function unmapIpv4(address: string): string | null {
+  const match = address.toLowerCase().match(/^::ffff:(?:0:)?(.+)$/);
+  if (!match) return null;
+  if (isIP(match[1]) === 4) return match[1];
+  const hex = match[1].match(/^([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (!hex) return null;
+  const high = parseInt(hex[1], 16);
+  const low = parseInt(hex[2], 16);
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join(".");
+}
+
+export function isPublicAddress(address: string): boolean {
+  const mapped = unmapIpv4(address);
+  if (mapped) return !blockedAddresses.check(mapped, "ipv4");
+  const family = isIP(address);
+  if (family === 0) return false;
+  return !blockedAddresses.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+function hostMatches(host: string, domains: string[]): boolean {
+  return domains.some((domain) => host === domain || host.endsWith(`.${domain}`));
+}
+
+/**
+ * Throws a UrlPolicyError unless `rawUrl` may be fetched. Resolves the host
+ * and rejects it if any of its addresses is non-public, so a name with one
+ * public and one private record can't be used to reach the private one.
+ */
+export async function assertUrlAllowed(rawUrl: string | URL): Promise<URL> {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new UrlPolicyError(`"${rawUrl}" is not a valid URL.`);
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new UrlPolicyError(
+      `scheme "${url.protocol}" is not allowed, only http and https.`
+    );
+  }
+  if (url.username || url.password) {
+    throw new UrlPolicyError("URLs with embedded credentials are not allowed.");
+  }
+
+  const { allowlist, denylist, allowPrivateNetwork } = getConfig().urlPolicy;
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, "").replace(/\.$/, "");
+  if (hostMatches(host, denylist)) {
+    throw new UrlPolicyError(`host "${host}" is on the denylist.`);
+  }
+  if (allowlist.length > 0 && !hostMatches(host, allowlist)) {
+    throw new UrlPolicyError(`host "${host}" is not on the allowlist.`);
+  }
+  if (allowPrivateNetwork) return url;
+
+  let addresses: string[];
+  if (isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = (await lookup(host, { all: true, verbatim: true })).map(
+        (entry) => entry.address
+      );
+    } catch (e) {
+      throw new Error(`DNS lookup failed for "${host}": ${(e as Error).message}`);
+    }
+  }
+  const blocked = addresses.find((address) => !isPublicAddress(address));
+  if (blocked) {
+    throw new UrlPolicyError(
+      isIP(host)
+        ? `address ${host} is not public.`
+        : `host "${host}" resolves to non-public address ${blocked}.`
+    );
+  }
+  return url;
+}
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+/**
+ * Fetches `url` following redirects by hand so each hop is re-checked
+ * against the policy before it is requested.
+ *
+ * Note the address check and the connection resolve DNS separately; a
+ * rebinding attack with a near-zero TTL can still slip between the two.
+ */
+export async function fetchWithUrlPolicy(
+  url: string,
+  init: RequestInit,
+  doFetch: (url: string, init: RequestInit) => Promise<Response> = fetch
+): Promise<Response> {
+  const { maxRedirects } = getConfig().urlPolicy;
+  let current = url;
+  for (let hop = 0; ; hop++) {
+    await assertUrlAllowed(current);
+    const resp = await doFetch(current, { ...init, redirect: "manual" });
+    const location = resp.headers.get("location");
+    if (!REDIRECT_STATUSES.has(resp.status) || !location) {
+      return resp;
+    }
+    await resp.body?.cancel();
+    if (hop >= maxRedirects) {
+      throw new UrlPolicyError(
+        `too many redirects (more than ${maxRedirects}) starting from "${url}".`
+      );
+    }
+    current = new URL(location, current).toString();
+  }
+}
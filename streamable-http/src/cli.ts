@@ -0,0 +1,57 @@
+/**
+ * Command-line helpers shared by the standalone entrypoints.
+ */
+
+import { loadConfig, setConfig } from "../netlify/mcp-server/config.js";
+import { useDefaultProxy } from "../netlify/mcp-server/egress.js";
+import { createLogger } from "../netlify/mcp-server/logger.js";
+
+const log = createLogger("cli");
+
+/**
+ * Runs a `node:util` parseArgs call, printing `usage` and exiting on
+ * `--help` or on unknown or malformed options. Usage goes to stderr, since
+ * stdout carries the protocol in stdio mode.
+ */
+export function parseCommandLine<T extends { values: { help?: boolean } }>(
+  usage: string,
+  parse: () => T
+): T {
+  let parsed: T;
+  try {
+    parsed = parse();
+  } catch (e) {
+    process.stderr.write(`${(e as Error).message}\n${usage}`);
+    process.exit(1);
+  }
+  if (parsed.values.help) {
+    process.stderr.write(usage);
+    process.exit(0);
+  }
+  return parsed;
+}
+
+/**
+ * Routes the requests no egress rule matches through `--proxy`, in place of
+ * the default pool from EGRESS_PROXY or HTTPS_PROXY, HTTP_PROXY and
+ * ALL_PROXY (see ../netlify/mcp-server/egress.ts).
+ */
+export function configureProxy(option: string | undefined): void {
+  if (!option) return;
+  useDefaultProxy(option);
+  // The URL may carry credentials; the host is enough to confirm the setting.
+  log.info("using proxy", { proxy: new URL(option).host });
+}
+
+/**
+ * Loads the server config, from `--config` in place of ORZ_CONFIG when given
+ * (see ../netlify/mcp-server/config.ts), over the entrypoint's `defaults`.
+ * Throws a ConfigError listing every invalid setting.
+ */
+export function configureServer(
+  option: string | undefined,
+  defaults?: Record<string, unknown>
+): void {
+  setConfig(loadConfig({ file: option, defaults }));
+  if (option) log.info("using config file", { file: option });
+}
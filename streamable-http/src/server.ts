@@ -0,0 +1,94 @@
+#!/usr/bin/env node
+/**
+ * Standalone HTTP server for self-hosting: the app of the Netlify function
+ * (/mcp, OAuth metadata, /health, /metrics) served by Node.
+ *
+ * Usage:
+ *   node dist/server.js [--port 3000] [--host 0.0.0.0] [--proxy <url>]
+ *                       [--config <file>]
+ *
+ * Environment:
+ *   PORT, HOST        defaults for --port and --host
+ *   ORZ_CONFIG        default for --config; see
+ *                     ../netlify/mcp-server/config.ts for the settings and
+ *                     their ORZ_* overrides
+ *   EGRESS_PROXY, HTTPS_PROXY, HTTP_PROXY, ALL_PROXY
+ *                     default proxy when --proxy isn't given; see
+ *                     ../netlify/mcp-server/egress.ts for pools, per-engine
+ *                     rules and NO_PROXY
+ *
+ * Everything else (auth, rate limits, sessions, cache, logging) is
+ * configured with the same variables as the Netlify deployment.
+ */
+
+import { parseArgs } from "node:util";
+import { serve } from "@hono/node-server";
+import { createApp } from "../netlify/http/app.js";
+import { createLogger } from "../netlify/mcp-server/logger.js";
+import {
+  configureProxy,
+  configureServer,
+  parseCommandLine,
+} from "./cli.js";
+
+const USAGE = `
+ORZ MCP Server - Streamable HTTP
+
+Usage:
+  node dist/server.js [options]
+
+Options:
+  --port <port>   Port to listen on (default: $PORT or 3000)
+  --host <host>   Interface to bind (default: $HOST or all interfaces)
+  --proxy <url>   HTTP/HTTPS/SOCKS5 proxy for outgoing requests
+  --config <file> JSON or YAML config file (default: $ORZ_CONFIG)
+  -h, --help      Show this help message
+
+Environment variables (used as fallback if --proxy is not set):
+  EGRESS_PROXY, HTTPS_PROXY, HTTP_PROXY, ALL_PROXY
+  NO_PROXY, EGRESS_POOLS, EGRESS_RULES for finer routing
+`;
+
+const log = createLogger("server");
+
+const { values } = parseCommandLine(USAGE, () =>
+  parseArgs({
+    options: {
+      port: { type: "string" },
+      host: { type: "string" },
+      proxy: { type: "string" },
+      config: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  })
+);
+
+const port = Number(values.port ?? process.env.PORT ?? 3000);
+if (!Number.isInteger(port) || port < 0 || port > 65535) {
+  process.stderr.write(`Invalid port "${values.port ?? process.env.PORT}".\n`);
+  process.exit(1);
+}
+const hostname = values.host ?? process.env.HOST;
+
+try {
+  configureServer(values.config);
+  configureProxy(values.proxy);
+} catch (e) {
+  process.stderr.write(`${(e as Error).message}\n`);
+  process.exit(1);
+}
+
+const server = serve({ fetch: createApp().fetch, port, hostname }, (info) => {
+  log.info("listening", {
+    url: `http://${hostname ?? "localhost"}:${info.port}/mcp`,
+  });
+});
+
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.on(signal, () => {
+    log.info("shutting down", { signal });
+    server.close(() => process.exit(0));
+    // Open SSE streams would keep close() waiting forever.
+    setTimeout(() => process.exit(0), 5000).unref();
+  });
+}
@@ -0,0 +1,84 @@
+#!/usr/bin/env node
+/**
+ * stdio entrypoint: the tools of the HTTP server for MCP clients that launch
+ * the server as a subprocess. Published as the `orz-mcp` package (see
+ * ../../stdio/package.json).
+ *
+ * Usage:
+ *   npx -y orz-mcp [--proxy <url>] [--config <file>]
+ *
+ * Environment:
+ *   ORZ_CONFIG        default for --config; see
+ *                     ../netlify/mcp-server/config.ts for the settings and
+ *                     their ORZ_* overrides
+ *   EGRESS_PROXY, HTTPS_PROXY, HTTP_PROXY, ALL_PROXY
+ *                     default proxy when --proxy isn't given; see
+ *                     ../netlify/mcp-server/egress.ts for pools, per-engine
+ *                     rules and NO_PROXY
+ *
+ * Cache, URL policy and logging take the same variables as the HTTP server,
+ * except that local and private-network addresses may be fetched by default
+ * (set ALLOW_PRIVATE_NETWORK=false to block them). stdout carries the
+ * protocol, so logs go to stderr.
+ */
+
+import { parseArgs } from "node:util";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { setupMCPServer } from "../netlify/mcp-server/index.js";
+import { createLogger, setLogOutput } from "../netlify/mcp-server/logger.js";
+import {
+  configureProxy,
+  configureServer,
+  parseCommandLine,
+} from "./cli.js";
+
+const USAGE = `
+ORZ MCP Server - Web Search & Fetch
+
+Usage:
+  npx -y orz-mcp [options]
+
+Options:
+  --proxy <url>   HTTP/HTTPS/SOCKS5 proxy URL (e.g. http://127.0.0.1:7890)
+  --config <file> JSON or YAML config file (default: $ORZ_CONFIG)
+  -h, --help      Show this help message
+
+Environment variables (used as fallback if --proxy is not set):
+  EGRESS_PROXY, HTTPS_PROXY, HTTP_PROXY, ALL_PROXY
+  NO_PROXY, EGRESS_POOLS, EGRESS_RULES for finer routing
+
+Examples:
+  npx -y orz-mcp --proxy http://127.0.0.1:7890
+  HTTPS_PROXY=http://127.0.0.1:7890 npx -y orz-mcp
+`;
+
+setLogOutput((line) => {
+  process.stderr.write(`${line}\n`);
+});
+
+const log = createLogger("stdio");
+
+// The server runs on the user's own machine on their behalf, so their
+// localhost and intranet are theirs to read.
+const STDIO_DEFAULTS = { urlPolicy: { allowPrivateNetwork: true } };
+
+const { values } = parseCommandLine(USAGE, () =>
+  parseArgs({
+    options: {
+      proxy: { type: "string" },
+      config: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  })
+);
+
+try {
+  configureServer(values.config, STDIO_DEFAULTS);
+  configureProxy(values.proxy);
+} catch (e) {
+  process.stderr.write(`${(e as Error).message}\n`);
+  process.exit(1);
+}
+
+await setupMCPServer().connect(new StdioServerTransport());
+log.info("MCP server running on stdio");
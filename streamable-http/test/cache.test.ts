@@ -0,0 +1,178 @@
+import assert from "node:assert/strict";
+import { createHash } from "node:crypto";
+import {
+  mkdtemp,
+  readdir,
+  rm,
+  utimes,
+  writeFile,
+} from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { setTimeout as sleep } from "node:timers/promises";
+import {
+  createFileCacheStore,
+  createMemoryCacheStore,
+} from "../netlify/mcp-server/cache.js";
+import { loadConfig, setConfig } from "../netlify/mcp-server/config.js";
+import { callTool, connectClient } from "./helpers.js";
+
+setConfig(loadConfig({ env: { ALLOW_PRIVATE_NETWORK: "true" } }));
+
+describe("createMemoryCacheStore", () => {
+  const entry = (text: string) => ({
+    value: text,
+    expiresAt: Date.now() + 60_000,
+  });
+
+  it("evicts least recently used entries past the byte budget", async () => {
+    const store = createMemoryCacheStore(100, 350);
+    await store.set("a", entry("a".repeat(100)));
+    await store.set("b", entry("b".repeat(100)));
+    await store.get("a");
+    await store.set("c", entry("c".repeat(100)));
+    assert.ok(await store.get("a"));
+    assert.equal(await store.get("b"), undefined);
+    assert.ok(await store.get("c"));
+  });
+
+  it("skips entries larger than the whole budget", async () => {
+    const store = createMemoryCacheStore(100, 350);
+    await store.set("a", entry("a".repeat(100)));
+    await store.set("huge", entry("x".repeat(500)));
+    assert.equal(await store.get("huge"), undefined);
+    assert.ok(await store.get("a"));
+  });
+
+  it("still honours the entry limit", async () => {
+    const store = createMemoryCacheStore(2);
+    for (const key of ["a", "b", "c"]) await store.set(key, entry(key));
+    assert.equal(await store.get("a"), undefined);
+  });
+});
+
+describe("createFileCacheStore", () => {
+  let directory: string;
+  const entry = (text: string, ttlMs = 60_000) => ({
+    value: text,
+    expiresAt: Date.now() + ttlMs,
+  });
+
+  before(async () => {
+    directory = await mkdtemp(join(tmpdir(), "orz-cache-test-"));
+  });
+  after(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  const freshDirectory = async (name: string) => {
+    const path = join(directory, name);
+    await rm(path, { recursive: true, force: true });
+    return path;
+  };
+
+  it("evicts least recently used files past the byte budget", async () => {
+    const store = createFileCacheStore(await freshDirectory("lru"), 350);
+    await store.set("a", entry("a".repeat(100)));
+    await store.set("b", entry("b".repeat(100)));
+    await store.get("a");
+    await store.set("c", entry("c".repeat(100)));
+    assert.ok(await store.get("a"));
+    assert.equal(await store.get("b"), undefined);
+    assert.ok(await store.get("c"));
+  });
+
+  it("skips entries larger than the whole budget", async () => {
+    const path = await freshDirectory("huge");
+    const store = createFileCacheStore(path, 350);
+    await store.set("huge", entry("x".repeat(500)));
+    assert.equal(await store.get("huge"), undefined);
+    assert.deepEqual(await readdir(path), []);
+  });
+
+  it("deletes expired files on write without reading them", async () => {
+    const path = await freshDirectory("expired");
+    const store = createFileCacheStore(path);
+    await store.set("old", entry("old", 20));
+    await sleep(30);
+    await store.set("new", entry("new"));
+    assert.equal((await readdir(path)).length, 1);
+    assert.ok(await store.get("new"));
+  });
+
+  it("accounts for files left by an earlier run", async () => {
+    const path = await freshDirectory("restart");
+    const earlier = createFileCacheStore(path, 350);
+    await earlier.set("a", entry("a".repeat(100)));
+    await earlier.set("b", entry("b".repeat(100)));
+    await writeFile(join(path, "stale.json"), JSON.stringify(entry("s", -1)));
+    // Give "a" the older mtime, as it would have across real writes.
+    const fileOf = (key: string) =>
+      join(path, `${createHash("sha256").update(key).digest("hex")}.json`);
+    await utimes(fileOf("a"), new Date(1_000), new Date(1_000));
+
+    const later = createFileCacheStore(path, 350);
+    await later.set("c", entry("c".repeat(100)));
+    assert.equal(await later.get("a"), undefined);
+    assert.ok(await later.get("b"));
+    assert.ok(await later.get("c"));
+    assert.equal((await readdir(path)).length, 2);
+  });
+});
+
+describe("web_fetch cache keys", () => {
+  const realFetch = globalThis.fetch;
+  let requests: string[] = [];
+
+  before(() => {
+    globalThis.fetch = (async (input: string | URL) => {
+      const url = new URL(String(input));
+      requests.push(url.pathname + url.search);
+      return new Response(
+        `<html><body><main><p>Page ${url.pathname}${url.search}</p></main></body></html>`,
+        { headers: { "content-type": "text/html" } }
+      );
+    }) as typeof fetch;
+  });
+  after(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  const fetchPage = async (url: string) => {
+    const client = await connectClient();
+    const result = await callTool(client, "web_fetch", {
+      url,
+      extractor: "heuristic",
+    });
+    return { content: result.content as string, cached: result.cached };
+  };
+
+  it("keeps path case and every content param apart", async () => {
+    requests = [];
+    const pages = [
+      "https://site.test/Docs/C",
+      "https://site.test/docs/c",
+      "https://site.test/list?from=1",
+      "https://site.test/list?from=2",
+      "https://site.test/list?ref=a",
+    ];
+    for (const url of pages) {
+      const { content, cached } = await fetchPage(url);
+      const { pathname, search } = new URL(url);
+      assert.equal(cached, false, url);
+      assert.equal(content, `Page ${pathname}${search}`);
+    }
+    assert.equal(requests.length, pages.length);
+  });
+
+  it("shares an entry across attribution params and fragments", async () => {
+    requests = [];
+    await fetchPage("https://site.test/article?id=7");
+    const { cached } = await fetchPage(
+      "https://site.test/article?utm_source=feed&id=7&fbclid=x#comments"
+    );
+    assert.equal(cached, true);
+    assert.deepEqual(requests, ["/article?id=7"]);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Charset sniffing against byte fixtures in test/fixtures/charset, one per
+ * encoding and per place the charset can be declared.
+ */
+
+import assert from "node:assert/strict";
+import { readFile } from "node:fs/promises";
+import { describe, it } from "node:test";
+import {
+  decodeBody,
+  detectCharset,
+  readResponseText,
+  type CharsetSource,
+} from "../netlify/mcp-server/charset.js";
+
+const fixture = async (name: string) =>
+  new Uint8Array(
+    await readFile(new URL(`./fixtures/charset/${name}`, import.meta.url))
+  );
+
+interface CharsetCase {
+  file: string;
+  contentType: string | null;
+  charset: string;
+  source: CharsetSource;
+  /** Text the decoded page must contain. */
+  text: string;
+}
+
+const cases: CharsetCase[] = [
+  {
+    file: "gbk-header.html",
+    contentType: "text/html; charset=GBK",
+    charset: "gbk",
+    source: "header",
+    text: "张堃的中文网页：搜索引擎测试。",
+  },
+  {
+    file: "gbk-header.html",
+    contentType: 'text/html;charset="gbk"',
+    charset: "gbk",
+    source: "header",
+    text: "<title>朱镕基与王喆</title>",
+  },
+  {
+    file: "gbk-header-over-meta.html",
+    contentType: "text/html; charset=gbk",
+    charset: "gbk",
+    source: "header",
+    text: "响应头优先于页面声明。",
+  },
+  {
+    file: "gb2312-meta.html",
+    contentType: "text/html",
+    charset: "gb2312",
+    source: "meta",
+    text: "这是一个简体中文网页。",
+  },
+  {
+    file: "big5-http-equiv.html",
+    contentType: "text/html",
+    charset: "big5",
+    source: "meta",
+    text: "這是一個繁體中文網頁。",
+  },
+  {
+    file: "shift_jis-meta.html",
+    contentType: null,
+    charset: "shift_jis",
+    source: "meta",
+    text: "これは日本語のページです。",
+  },
+  {
+    file: "shift_jis-xml.xhtml",
+    contentType: "application/xhtml+xml",
+    charset: "shift_jis",
+    source: "meta",
+    text: "カタカナとひらがな。",
+  },
+  {
+    file: "utf8-bom.html",
+    // The BOM wins over a wrong header.
+    contentType: "text/html; charset=iso-8859-1",
+    charset: "utf-8",
+    source: "bom",
+    text: "带 BOM 的页面。",
+  },
+  {
+    file: "utf16le-bom.html",
+    contentType: "text/html",
+    charset: "utf-16le",
+    source: "bom",
+    text: "小端序页面。",
+  },
+  {
+    file: "utf8-default.html",
+    contentType: "text/html",
+    charset: "utf-8",
+    source: "default",
+    text: "没有任何声明的 UTF-8 页面。",
+  },
+  {
+    file: "gb2312-meta.html",
+    // Labels TextDecoder doesn't know are ignored, not fatal.
+    contentType: "text/html; charset=x-unknown",
+    charset: "gb2312",
+    source: "meta",
+    text: "简体中文",
+  },
+];
+
+describe("detectCharset / decodeBody", () => {
+  for (const { file, contentType, charset, source, text } of cases) {
+    it(`${file} with ${contentType ?? "no content type"}`, async () => {
+      const bytes = await fixture(file);
+      assert.deepEqual(detectCharset(bytes, contentType), { charset, source });
+      const decoded = decodeBody(bytes, contentType);
+      assert.ok(decoded.includes(text), decoded);
+      assert.ok(!decoded.includes("�"), "replacement characters");
+      assert.ok(decoded.startsWith("<"), "BOM left in the text");
+    });
+  }
+});
+
+describe("readResponseText", () => {
+  it("decodes a response body with its header charset", async () => {
+    const response = new Response(await fixture("big5-http-equiv.html"), {
+      headers: { "content-type": "text/html; charset=big5" },
+    });
+    assert.match(await readResponseText(response), /繁體中文/);
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * web_crawl against the fixture site in test/fixtures/site, served locally:
+ *
+ *   /                 -> docs/a, docs/b, blog/post, private/secret and
+ *                        localhost/other (another origin)
+ *   /docs/a           -> docs/deep/c -> docs/deep/d
+ *   /sitemap.xml      lists /, docs/from-sitemap and localhost/other
+ */
+
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { loadConfig, setConfig } from "../netlify/mcp-server/config.js";
+import {
+  callTool,
+  connectClient,
+  startFixtureServer,
+  type FixtureServer,
+} from "./helpers.js";
+
+setConfig(loadConfig({ env: { ALLOW_PRIVATE_NETWORK: "true" } }));
+
+interface CrawledPage {
+  url: string;
+  depth: number;
+  ok: boolean;
+  title?: string | null;
+  content?: string;
+}
+
+describe("web_crawl", () => {
+  let site: FixtureServer;
+
+  before(async () => {
+    site = await startFixtureServer(new URL("./fixtures/site/", import.meta.url));
+  });
+  after(() => site.close());
+
+  const crawl = async (args: Record<string, unknown> = {}) => {
+    const client = await connectClient();
+    const result = await callTool(client, "web_crawl", {
+      url: `${site.origin}/`,
+      bypass_cache: true,
+      ...args,
+    });
+    await client.close();
+    return result as {
+      pages: CrawledPage[];
+      sitemap_url: string | null;
+      limit_reached: boolean;
+    };
+  };
+
+  /** Paths crawled at each depth, sorted within a depth. */
+  const pathsByDepth = (pages: CrawledPage[]) => {
+    const levels: string[][] = [];
+    for (const page of pages) {
+      const { pathname } = new URL(page.url);
+      (levels[page.depth] ??= []).push(pathname);
+    }
+    return levels.map((level) => level.sort());
+  };
+
+  it("seeds from the sitemap and follows links breadth-first", async () => {
+    const result = await crawl({ max_depth: 2 });
+    assert.equal(result.sitemap_url, `${site.origin}/sitemap.xml`);
+    assert.equal(result.limit_reached, false);
+    assert.ok(result.pages.every((page) => page.ok));
+    assert.deepEqual(pathsByDepth(result.pages), [
+      ["/"],
+      [
+        "/blog/post.html",
+        "/docs/a.html",
+        "/docs/b.html",
+        "/docs/from-sitemap.html",
+        "/private/secret.html",
+      ],
+      ["/docs/deep/c.html"],
+    ]);
+    const home = result.pages[0];
+    assert.equal(home.title, "Home");
+    assert.match(home.content!, /main content/);
+  });
+
+  it("never leaves the seed's origin", async () => {
+    site.requests.length = 0;
+    const result = await crawl({ max_depth: 3 });
+    assert.ok(result.pages.every((page) => page.url.startsWith(site.origin)));
+    const host = new URL(site.otherOrigin).host;
+    assert.deepEqual(
+      site.requests.filter((request) => request.startsWith(host)),
+      []
+    );
+  });
+
+  it("skips the sitemap when use_sitemap is false", async () => {
+    site.requests.length = 0;
+    const result = await crawl({ use_sitemap: false });
+    assert.equal(result.sitemap_url, null);
+    assert.ok(!site.requests.some((request) => request.endsWith("/sitemap.xml")));
+    assert.ok(
+      !result.pages.some((page) => page.url.endsWith("/docs/from-sitemap.html"))
+    );
+  });
+
+  it("stops at max_depth", async () => {
+    const deep = await crawl({ max_depth: 3 });
+    assert.deepEqual(pathsByDepth(deep.pages)[3], ["/docs/deep/d.html"]);
+
+    site.requests.length = 0;
+    const seedOnly = await crawl({ max_depth: 0 });
+    assert.deepEqual(pathsByDepth(seedOnly.pages), [["/"]]);
+    assert.equal(seedOnly.sitemap_url, null);
+    assert.deepEqual(
+      site.requests.map((request) => new URL(`http://${request}`).pathname),
+      ["/"]
+    );
+  });
+
+  it("stops at max_pages and reports it", async () => {
+    const result = await crawl({ max_pages: 3 });
+    assert.equal(result.pages.length, 3);
+    assert.equal(result.limit_reached, true);
+    assert.equal(new URL(result.pages[0].url).pathname, "/");
+  });
+
+  it("applies include and exclude to every page but the seed", async () => {
+    const result = await crawl({
+      max_depth: 3,
+      include: ["/docs/*"],
+      exclude: ["/docs/deep/d.html", "*/from-sitemap.html"],
+    });
+    assert.deepEqual(pathsByDepth(result.pages), [
+      ["/"],
+      ["/docs/a.html", "/docs/b.html"],
+      ["/docs/deep/c.html"],
+    ]);
+  });
+
+  describe("with a generated sitemap", () => {
+    const startSite = (sitemap: (origin: string) => string) =>
+      startFixtureServer(new URL("./fixtures/site/", import.meta.url), {
+        "/sitemap.xml": (res, origin) => {
+          res.writeHead(200, { "content-type": "application/xml" });
+          res.end(sitemap(origin));
+        },
+      });
+    const urlset = (locs: string[]) =>
+      `<urlset>${locs
+        .map((loc) => `<url><loc>${loc}</loc></url>`)
+        .join("\n")}</urlset>`;
+    const crawlSite = async (generated: FixtureServer) => {
+      const client = await connectClient();
+      const result = await callTool(client, "web_crawl", {
+        url: `${generated.origin}/`,
+        bypass_cache: true,
+        max_depth: 1,
+        include: ["/docs/*"],
+      });
+      await client.close();
+      return result as { pages: CrawledPage[]; sitemap_url: string | null };
+    };
+
+    it("skips a sitemap over the size limit", async () => {
+      // Valid up front, then padded past the 5 MB cap.
+      const generated = await startSite(
+        (origin) =>
+          urlset([`${origin}/docs/from-sitemap.html`]) +
+          `<!-- ${"x".repeat(6 * 1024 * 1024)} -->`
+      );
+      try {
+        const result = await crawlSite(generated);
+        assert.equal(result.sitemap_url, null);
+        assert.deepEqual(pathsByDepth(result.pages), [
+          ["/"],
+          ["/docs/a.html", "/docs/b.html"],
+        ]);
+      } finally {
+        await generated.close();
+      }
+    });
+
+    it("reads at most 1000 sitemap URLs", async () => {
+      const padding = (origin: string) =>
+        Array.from({ length: 1000 }, (_, i) => `${origin}/padding/${i}.html`);
+      const generated = await startSite((origin) =>
+        urlset([...padding(origin), `${origin}/docs/from-sitemap.html`])
+      );
+      try {
+        const result = await crawlSite(generated);
+        assert.equal(result.sitemap_url, `${generated.origin}/sitemap.xml`);
+        assert.deepEqual(pathsByDepth(result.pages), [
+          ["/"],
+          ["/docs/a.html", "/docs/b.html"],
+        ]);
+      } finally {
+        await generated.close();
+      }
+    });
+
+    it("reads at most five sitemap files", async () => {
+      const generated = await startSite(
+        (origin) =>
+          `<sitemapindex>${Array.from(
+            { length: 20 },
+            (_, i) => `<sitemap><loc>${origin}/sitemap.xml?${i}</loc></sitemap>`
+          ).join("")}</sitemapindex>`
+      );
+      try {
+        await crawlSite(generated);
+        const sitemaps = generated.requests.filter((request) =>
+          new URL(`http://${request}`).pathname.endsWith("/sitemap.xml")
+        );
+        assert.equal(sitemaps.length, 5);
+      } finally {
+        await generated.close();
+      }
+    });
+  });
+
+  it("fits the default page size to a small tools.maxCharSize", async () => {
+    setConfig(
+      loadConfig({
+        env: {
+          ALLOW_PRIVATE_NETWORK: "true",
+          ORZ_TOOLS__MAX_CHAR_SIZE: "5000",
+        },
+      })
+    );
+    try {
+      const result = await crawl({ max_depth: 0 });
+      assert.deepEqual(pathsByDepth(result.pages), [["/"]]);
+      assert.ok(result.pages[0].ok);
+    } finally {
+      setConfig(loadConfig({ env: { ALLOW_PRIVATE_NETWORK: "true" } }));
+    }
+  });
+});
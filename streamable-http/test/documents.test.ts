@@ -0,0 +1,79 @@
+/**
+ * Size limits on fetched documents: the download cap while streaming and
+ * the inflated-size cap on DOCX / EPUB archives.
+ */
+
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { strToU8, zipSync } from "fflate";
+import { loadConfig, setConfig } from "../netlify/mcp-server/config.js";
+import { convertDocument } from "../netlify/mcp-server/documents.js";
+import { callTool, connectClient } from "./helpers.js";
+
+setConfig(loadConfig({ env: { ALLOW_PRIVATE_NETWORK: "true" } }));
+
+function buildEpub(chapter: Uint8Array): Uint8Array {
+  return zipSync(
+    {
+      "META-INF/container.xml": strToU8(
+        '<container><rootfiles><rootfile full-path="OEBPS/book.opf"/></rootfiles></container>'
+      ),
+      "OEBPS/book.opf": strToU8(
+        '<package><metadata><dc:title>Book</dc:title></metadata><manifest><item id="c1" href="c1.xhtml"/></manifest><spine><itemref idref="c1"/></spine></package>'
+      ),
+      "OEBPS/c1.xhtml": chapter,
+    },
+    { level: 1 }
+  );
+}
+
+describe("convertDocument", () => {
+  it("converts an archive within the inflated-size cap", async () => {
+    const epub = buildEpub(
+      strToU8("<html><body><h1>Chapter</h1><p>Hello.</p></body></html>")
+    );
+    const { title, content } = await convertDocument("epub", epub);
+    assert.equal(title, "Book");
+    assert.match(content, /# Chapter\n\nHello\./);
+  });
+
+  it("refuses an archive that inflates past the cap", async () => {
+    const bomb = buildEpub(new Uint8Array(210 * 1024 * 1024));
+    assert.ok(bomb.length < 1024 * 1024);
+    await assert.rejects(
+      convertDocument("epub", bomb),
+      /Failed to extract text from EPUB: archive inflates to more than 200 MB/
+    );
+  });
+});
+
+describe("web_fetch download limit", () => {
+  const realFetch = globalThis.fetch;
+  let chunksSent = 0;
+
+  before(() => {
+    // 1 MB chunks without a Content-Length, as a chunked response sends them.
+    globalThis.fetch = (async () => {
+      chunksSent = 0;
+      const body = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          chunksSent++;
+          controller.enqueue(new Uint8Array(1024 * 1024).fill(0x61));
+        },
+      });
+      return new Response(body, { headers: { "content-type": "text/plain" } });
+    }) as typeof fetch;
+  });
+  after(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  it("stops reading a body without Content-Length at the cap", async () => {
+    const client = await connectClient();
+    await assert.rejects(
+      callTool(client, "web_fetch", { url: "https://site.test/endless" }),
+      /Document is larger than 25 MB/
+    );
+    assert.ok(chunksSent <= 28, `read ${chunksSent} chunks`);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Requests through a proxy pool, against a local target server and a
+ * minimal CONNECT proxy.
+ */
+
+import assert from "node:assert/strict";
+import { once } from "node:events";
+import { createServer, type Server } from "node:http";
+import { connect, type AddressInfo } from "node:net";
+import { after, before, describe, it } from "node:test";
+import {
+  egressFetch,
+  loadEgressConfig,
+  setEgressConfig,
+} from "../netlify/mcp-server/egress.js";
+
+async function listen(server: Server): Promise<string> {
+  server.listen(0, "127.0.0.1");
+  await once(server, "listening");
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+describe("egressFetch through a proxy", () => {
+  let target: Server;
+  let proxy: Server;
+  let targetUrl: string;
+  let tunnels = 0;
+
+  before(async () => {
+    target = createServer((req, res) => {
+      if (req.url === "/moved") {
+        res.writeHead(302, { location: "/page" }).end();
+        return;
+      }
+      res.writeHead(200, {
+        "content-type": "text/plain; charset=utf-8",
+        "x-echo": req.headers["x-test"] ?? "",
+      });
+      res.end(`${req.method} ${req.url}`);
+    });
+    proxy = createServer();
+    proxy.on("connect", (req, socket, head) => {
+      tunnels++;
+      const [host, port] = req.url!.split(":");
+      const upstream = connect(Number(port), host, () => {
+        socket.write("HTTP/1.1 200 Connection Established\r\n\r\n");
+        upstream.write(head);
+        upstream.pipe(socket).pipe(upstream);
+      });
+      upstream.on("error", () => socket.destroy());
+      socket.on("error", () => upstream.destroy());
+    });
+    targetUrl = await listen(target);
+    const proxyUrl = await listen(proxy);
+    setEgressConfig(loadEgressConfig({ EGRESS_PROXY: proxyUrl }));
+  });
+
+  after(() => {
+    setEgressConfig(loadEgressConfig({}));
+    target.closeAllConnections();
+    proxy.closeAllConnections();
+    target.close();
+    proxy.close();
+  });
+
+  it("returns a standard Response with status, headers, body and url", async () => {
+    const response = await egressFetch(`${targetUrl}/page?q=1`, {
+      headers: { "X-Test": "sent" },
+    });
+    assert.ok(response instanceof Response);
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get("x-echo"), "sent");
+    assert.equal(response.url, `${targetUrl}/page?q=1`);
+    assert.equal(await response.text(), "GET /page?q=1");
+    assert.ok(tunnels > 0);
+  });
+
+  it("passes manual redirects back to the caller", async () => {
+    const response = await egressFetch(`${targetUrl}/moved`, {
+      redirect: "manual",
+    });
+    assert.equal(response.status, 302);
+    assert.equal(response.headers.get("location"), "/page");
+  });
+});
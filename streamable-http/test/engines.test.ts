@@ -0,0 +1,91 @@
+/**
+ * Result-page parsers against recorded engine responses in
+ * test/fixtures/engines. Refresh a fixture from a live page when an engine
+ * changes its markup.
+ */
+
+import assert from "node:assert/strict";
+import { readFile } from "node:fs/promises";
+import { describe, it } from "node:test";
+import {
+  parseBing,
+  parseMojeek,
+  parseSearxng,
+} from "../netlify/mcp-server/index.js";
+
+const fixture = (name: string) =>
+  readFile(new URL(`./fixtures/engines/${name}`, import.meta.url), "utf8");
+
+describe("parseBing", () => {
+  it("reads organic results and decodes click-tracker URLs", async () => {
+    const results = parseBing(await fixture("bing.html"));
+    assert.deepEqual(
+      results.map((result) => [result.url, result.title]),
+      [
+        ["https://nodejs.org/en", "Node.js — Run JavaScript Everywhere"],
+        [
+          "https://github.com/nodejs/node",
+          "GitHub - nodejs/node: Node.js JavaScript runtime",
+        ],
+        ["https://en.wikipedia.org/wiki/Node.js", "Node.js - Wikipedia"],
+      ]
+    );
+    assert.match(results[0].summary, /^Oct 1, 2026 · Node\.js® is a free/);
+    assert.match(results[0].summary, /web apps & more\.$/);
+  });
+
+  it("falls back to the first paragraph without a caption", async () => {
+    const [, , wikipedia] = parseBing(await fixture("bing.html"));
+    assert.match(wikipedia.summary, /^Node\.js is a cross-platform/);
+  });
+
+  it("skips ads above the results", async () => {
+    const results = parseBing(await fixture("bing.html"));
+    for (const result of results) {
+      assert.doesNotMatch(`${result.url} ${result.summary}`, /aclick|Sponsored/);
+    }
+  });
+});
+
+describe("parseMojeek", () => {
+  it("reads every result with its snippet", async () => {
+    const results = parseMojeek(await fixture("mojeek.html"));
+    assert.deepEqual(
+      results.map((result) => result.url),
+      [
+        "https://nodejs.org/en",
+        "https://github.com/nodejs/node",
+        "https://en.wikipedia.org/wiki/Node.js?lang=en&section=1",
+      ]
+    );
+    assert.equal(
+      results[1].title,
+      "GitHub - nodejs/node: Node.js JavaScript runtime"
+    );
+    assert.match(results[0].summary, /^Node\.js® is a free, open-source/);
+  });
+});
+
+describe("parseSearxng", () => {
+  it("keeps titled http(s) results and strips markup", async () => {
+    const results = parseSearxng(JSON.parse(await fixture("searxng.json")));
+    assert.deepEqual(results, [
+      {
+        url: "https://nodejs.org/en",
+        title: "Node.js — Run JavaScript Everywhere",
+        summary:
+          "Node.js® is a free, open-source, cross-platform JavaScript runtime environment.",
+      },
+      {
+        url: "https://github.com/nodejs/node",
+        title: "GitHub - nodejs/node: Node.js JavaScript runtime",
+        summary: "Node.js JavaScript runtime.",
+      },
+    ]);
+  });
+
+  it("returns nothing for a malformed response", () => {
+    assert.deepEqual(parseSearxng({ error: "rate limited" }), []);
+    assert.deepEqual(parseSearxng(null), []);
+  });
+});
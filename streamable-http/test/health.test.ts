@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import {
+  getHealthSnapshot,
+  isTargetAvailable,
+  recordOutcome,
+  releaseTarget,
+  tryAcquireTarget,
+} from "../netlify/mcp-server/health.js";
+
+/** A target whose breaker has just opened; names are unique per test. */
+function openBreaker(target: string): void {
+  for (let i = 0; i < 3; i++) recordOutcome(target, "error", 100);
+  assert.equal(isTargetAvailable(target), false);
+}
+
+const stateOf = (target: string) =>
+  getHealthSnapshot().find((health) => health.target === target)?.state;
+
+describe("circuit breaker", () => {
+  beforeEach(() => mock.timers.enable({ apis: ["Date"], now: 0 }));
+  afterEach(() => mock.timers.reset());
+
+  it("lets a single trial call through once half-open", () => {
+    openBreaker("probe-single");
+    mock.timers.tick(30_000);
+    assert.equal(stateOf("probe-single"), "half-open");
+
+    assert.equal(tryAcquireTarget("probe-single"), true);
+    assert.equal(tryAcquireTarget("probe-single"), false);
+    assert.equal(isTargetAvailable("probe-single"), false);
+
+    recordOutcome("probe-single", "success", 100);
+    assert.equal(stateOf("probe-single"), "closed");
+    assert.equal(tryAcquireTarget("probe-single"), true);
+    assert.equal(tryAcquireTarget("probe-single"), true);
+  });
+
+  it("reopens with a doubled cooldown when the trial fails", () => {
+    openBreaker("probe-failed");
+    mock.timers.tick(30_000);
+    assert.equal(tryAcquireTarget("probe-failed"), true);
+    recordOutcome("probe-failed", "captcha", 100);
+    assert.equal(stateOf("probe-failed"), "open");
+
+    mock.timers.tick(30_000);
+    assert.equal(tryAcquireTarget("probe-failed"), false);
+    mock.timers.tick(30_000);
+    assert.equal(tryAcquireTarget("probe-failed"), true);
+  });
+
+  it("frees the trial when its call is cancelled", () => {
+    openBreaker("probe-cancelled");
+    mock.timers.tick(30_000);
+    assert.equal(tryAcquireTarget("probe-cancelled"), true);
+    releaseTarget("probe-cancelled");
+    assert.equal(tryAcquireTarget("probe-cancelled"), true);
+    assert.equal(tryAcquireTarget("probe-cancelled"), false);
+  });
+});
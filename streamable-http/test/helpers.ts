@@ -0,0 +1,104 @@
+/**
+ * Shared test setup: an MCP client connected in memory to a fresh server,
+ * and a static HTTP server for fixture sites.
+ */
+
+import { once } from "node:events";
+import { readFile } from "node:fs/promises";
+import { createServer, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { extname } from "node:path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { setupMCPServer } from "../netlify/mcp-server/index.js";
+
+export async function connectClient(): Promise<Client> {
+  const server = setupMCPServer();
+  const [serverTransport, clientTransport] =
+    InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  const client = new Client({ name: "orz-mcp-test", version: "1.0.0" });
+  await client.connect(clientTransport);
+  return client;
+}
+
+/** Structured content of a successful tool call; throws on a tool error. */
+export async function callTool(
+  client: Client,
+  name: string,
+  args: Record<string, unknown>
+): Promise<Record<string, unknown>> {
+  const result = await client.callTool({ name, arguments: args });
+  if (result.isError) {
+    const [content] = result.content as Array<{ text: string }>;
+    throw new Error(content.text);
+  }
+  return result.structuredContent as Record<string, unknown>;
+}
+
+export interface FixtureServer {
+  /** http://127.0.0.1:<port> */
+  origin: string;
+  /** The same server as http://localhost:<port>, a different origin. */
+  otherOrigin: string;
+  /** Every request as "<host><path>", in order. */
+  requests: string[];
+  close(): Promise<void>;
+}
+
+const FIXTURE_TYPES: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".xml": "application/xml",
+};
+
+/** Writes the response for one path, given the server's origin. */
+export type FixtureRoute = (res: ServerResponse, origin: string) => void;
+
+/**
+ * Serves the files under `root` on a free port. `/` serves index.html, and
+ * __ORIGIN__ / __OTHER_ORIGIN__ in a file are replaced with the server's
+ * two origins so fixtures can hold absolute links. `routes` answer their
+ * paths instead of the files, e.g. with generated content.
+ */
+export async function startFixtureServer(
+  root: URL,
+  routes: Record<string, FixtureRoute> = {}
+): Promise<FixtureServer> {
+  const requests: string[] = [];
+  let origin = "";
+  let otherOrigin = "";
+  const server = createServer(async (req, res) => {
+    requests.push(`${req.headers.host}${req.url}`);
+    const path = new URL(req.url ?? "/", origin).pathname;
+    if (Object.hasOwn(routes, path)) return routes[path](res, origin);
+    const file = path.endsWith("/") ? `${path}index.html` : path;
+    try {
+      const text = await readFile(new URL(`.${file}`, root), "utf8");
+      res.writeHead(200, {
+        "content-type": FIXTURE_TYPES[extname(file)] ?? "text/plain",
+      });
+      res.end(
+        text
+          .replaceAll("__OTHER_ORIGIN__", otherOrigin)
+          .replaceAll("__ORIGIN__", origin)
+      );
+    } catch {
+      res.writeHead(404, { "content-type": "text/plain" }).end("Not found");
+    }
+  });
+  server.listen(0, "127.0.0.1");
+  await once(server, "listening");
+  const { port } = server.address() as AddressInfo;
+  origin = `http://127.0.0.1:${port}`;
+  otherOrigin = `http://localhost:${port}`;
+  return {
+    origin,
+    otherOrigin,
+    requests,
+    close: async () => {
+      server.closeAllConnections();
+      server.close();
+      await once(server, "close");
+    },
+  };
+}
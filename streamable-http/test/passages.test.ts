@@ -0,0 +1,33 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { findChunkEnd } from "../netlify/mcp-server/passages.js";
+
+describe("findChunkEnd", () => {
+  const text = "# Title\n\nFirst paragraph.\n\n## Next\n\nSecond paragraph.";
+
+  it("cuts before the last heading in the window", () => {
+    assert.equal(findChunkEnd(text, 0, 40), text.indexOf("## Next"));
+  });
+
+  it("returns the end when the rest fits", () => {
+    assert.equal(findChunkEnd(text, 10, 1000), text.length);
+  });
+
+  it("always moves past start", () => {
+    for (const limit of [10, 9, 0, -5, 10.5]) {
+      const end = findChunkEnd(text, 10, limit);
+      assert.ok(end > 10, `limit ${limit} gave end ${end}`);
+      assert.ok(Number.isInteger(end));
+    }
+  });
+
+  it("pages through a document with a tiny limit", () => {
+    let start = 0;
+    let chunks = 0;
+    while (start < text.length) {
+      start = findChunkEnd(text, start, start + 1);
+      chunks++;
+    }
+    assert.equal(chunks, text.length);
+  });
+});
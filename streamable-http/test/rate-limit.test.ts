@@ -0,0 +1,130 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Hono } from "hono";
+import type { AuthEnv } from "../netlify/http/auth.js";
+import {
+  createConfiguredStore,
+  createMemoryRateLimitStore,
+  createRateLimitMiddleware,
+  loadTrustedProxies,
+  type RateLimitStore,
+} from "../netlify/http/rate-limit.js";
+
+/** An app allowing one web_search call per minute per client. */
+function createLimitedApp(
+  trustedProxies = "",
+  store: Promise<RateLimitStore | null> = Promise.resolve(
+    createMemoryRateLimitStore()
+  )
+) {
+  const app = new Hono<AuthEnv>();
+  app.use(
+    "/mcp",
+    createRateLimitMiddleware(
+      { web_search: { perMinute: 1, perDay: 0 } },
+      store,
+      loadTrustedProxies(trustedProxies)
+    )
+  );
+  app.post("/mcp", (c) => c.json({ ok: true }));
+  return app;
+}
+
+const search = (
+  app: Hono<AuthEnv>,
+  env: object,
+  headers: Record<string, string> = {}
+) =>
+  app.request(
+    "/mcp",
+    {
+      method: "POST",
+      headers: { "content-type": "application/json", ...headers },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "tools/call",
+        params: { name: "web_search", arguments: { query: "q" } },
+      }),
+    },
+    env
+  );
+
+const node = (remoteAddress: string) => ({
+  incoming: { socket: { remoteAddress } },
+});
+
+describe("rate-limit client identity", () => {
+  it("ignores forwarding headers from untrusted peers", async () => {
+    const app = createLimitedApp();
+    const first = await search(app, node("203.0.113.7"), {
+      "x-forwarded-for": "198.51.100.1",
+    });
+    const second = await search(app, node("203.0.113.7"), {
+      "x-forwarded-for": "198.51.100.2",
+      "x-real-ip": "198.51.100.3",
+      "x-nf-client-connection-ip": "198.51.100.4",
+    });
+    assert.equal(first.status, 200);
+    assert.equal(second.status, 429);
+    assert.equal((await search(app, node("203.0.113.8"))).status, 200);
+  });
+
+  it("uses the forwarded client behind a trusted proxy", async () => {
+    const app = createLimitedApp("10.0.0.0/8, ::1");
+    const proxied = (forwardedFor: string) =>
+      search(app, node("10.0.0.2"), { "x-forwarded-for": forwardedFor });
+    assert.equal((await proxied("198.51.100.1")).status, 200);
+    assert.equal((await proxied("198.51.100.2")).status, 200);
+    // A spoofed leftmost hop doesn't hide the address the proxy saw.
+    assert.equal((await proxied("192.0.2.9, 198.51.100.1")).status, 429);
+    assert.equal((await proxied("198.51.100.2, 10.0.0.3")).status, 429);
+  });
+
+  it("uses the address Netlify reports", async () => {
+    const app = createLimitedApp();
+    const netlify = (ip: string) => ({ context: { ip } });
+    assert.equal((await search(app, netlify("198.51.100.1"))).status, 200);
+    const spoofed = await search(app, netlify("198.51.100.1"), {
+      "x-forwarded-for": "198.51.100.2",
+    });
+    assert.equal(spoofed.status, 429);
+  });
+
+  it("rejects TRUSTED_PROXIES entries that aren't addresses", () => {
+    assert.throws(
+      () => loadTrustedProxies("proxy.internal"),
+      /TRUSTED_PROXIES/
+    );
+    assert.throws(() => loadTrustedProxies("10.0.0.0/40"), /TRUSTED_PROXIES/);
+  });
+});
+
+describe("rate-limit store failures", () => {
+  it("rejects an unknown RATE_LIMIT_STORE up front", () => {
+    assert.throws(
+      () => createConfiguredStore("redis"),
+      /Unknown RATE_LIMIT_STORE "redis"/
+    );
+  });
+
+  it("answers 503 when the store can't be set up", async () => {
+    const store = Promise.reject(new Error("no blobs context"));
+    const app = createLimitedApp("", store);
+    const response = await search(app, node("203.0.113.7"));
+    assert.equal(response.status, 503);
+    const body = await response.json();
+    assert.equal(body.id, 1);
+  });
+
+  it("answers 503 when the store fails at runtime", async () => {
+    const broken: RateLimitStore = {
+      name: "broken",
+      get: () => Promise.reject(new Error("store down")),
+      increment: () => Promise.reject(new Error("store down")),
+    };
+    const app = createLimitedApp("", Promise.resolve(broken));
+    const response = await search(app, node("203.0.113.7"));
+    assert.equal(response.status, 503);
+  });
+});
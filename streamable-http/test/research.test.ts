@@ -0,0 +1,49 @@
+/**
+ * web_research against a local SearXNG stand-in: test/fixtures/research
+ * serves /search as SearXNG JSON pointing at one long page.
+ */
+
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { loadConfig, setConfig } from "../netlify/mcp-server/config.js";
+import {
+  callTool,
+  connectClient,
+  startFixtureServer,
+  type FixtureServer,
+} from "./helpers.js";
+
+describe("web_research", () => {
+  let site: FixtureServer;
+
+  before(async () => {
+    site = await startFixtureServer(
+      new URL("./fixtures/research/", import.meta.url)
+    );
+  });
+  after(() => site.close());
+
+  it("keeps the default budget within a small tools.maxCharSize", async () => {
+    setConfig(
+      loadConfig({
+        env: {
+          ALLOW_PRIVATE_NETWORK: "true",
+          SEARXNG_URL: site.origin,
+          ORZ_TOOLS__MAX_CHAR_SIZE: "5000",
+        },
+      })
+    );
+    const client = await connectClient();
+    const result = await callTool(client, "web_research", {
+      query: "widget tuning",
+      engines: ["searxng"],
+    });
+    const sources = result.sources as Array<{ url: string }>;
+    assert.deepEqual(
+      sources.map((source) => source.url),
+      [`${site.origin}/page.html`]
+    );
+    assert.ok((result.passages as unknown[]).length > 0);
+    assert.ok((result.total_chars as number) <= 5000);
+  });
+});
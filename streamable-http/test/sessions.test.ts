@@ -0,0 +1,121 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { setTimeout as sleep } from "node:timers/promises";
+import { Hono } from "hono";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { AuthEnv } from "../netlify/http/auth.js";
+import { createSessionManager } from "../netlify/http/sessions.js";
+import { setupMCPServer } from "../netlify/mcp-server/index.js";
+
+const IDLE_MS = 100;
+
+function createSessionApp(createServer: () => McpServer = setupMCPServer) {
+  const app = new Hono<AuthEnv>();
+  const handleSessionRequest = createSessionManager({
+    createServer: () => createServer(),
+    idleTimeoutMs: IDLE_MS,
+  });
+  app.on(["POST", "GET", "DELETE"], "/mcp", (c) => handleSessionRequest(c));
+  return app;
+}
+
+// The SDK transport rebuilds the URL from Host, which app.request leaves out.
+const HOST = { host: "localhost" };
+
+const post = (app: Hono<AuthEnv>, body: object, sessionId?: string) =>
+  app.request("/mcp", {
+    method: "POST",
+    headers: {
+      ...HOST,
+      "content-type": "application/json",
+      accept: "application/json, text/event-stream",
+      ...(sessionId ? { "mcp-session-id": sessionId } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+
+async function initialize(app: Hono<AuthEnv>): Promise<string> {
+  const response = await post(app, {
+    jsonrpc: "2.0",
+    id: 0,
+    method: "initialize",
+    params: {
+      protocolVersion: "2025-06-18",
+      capabilities: {},
+      clientInfo: { name: "orz-mcp-test", version: "1.0.0" },
+    },
+  });
+  assert.equal(response.status, 200);
+  await response.text();
+  return response.headers.get("mcp-session-id")!;
+}
+
+/** Status of a ping in the session, with the JSON-RPC error if any. */
+async function ping(app: Hono<AuthEnv>, sessionId: string) {
+  const response = await post(
+    app,
+    { jsonrpc: "2.0", id: 1, method: "ping" },
+    sessionId
+  );
+  const text = await response.text();
+  return {
+    status: response.status,
+    error: response.ok ? undefined : JSON.parse(text).error,
+  };
+}
+
+describe("session manager", () => {
+  it("answers unknown sessions with a session-specific error", async () => {
+    const app = createSessionApp();
+    assert.deepEqual(await ping(app, "no-such-session"), {
+      status: 404,
+      error: { code: -32004, message: "Session not found." },
+    });
+  });
+
+  it("closes sessions idle for longer than the timeout", async () => {
+    const app = createSessionApp();
+    const sessionId = await initialize(app);
+    assert.equal((await ping(app, sessionId)).status, 200);
+    await sleep(IDLE_MS * 2);
+    assert.equal((await ping(app, sessionId)).status, 404);
+  });
+
+  it("closes idle sessions without waiting for another request", async () => {
+    let closed = false;
+    const app = createSessionApp(() => {
+      const server = setupMCPServer();
+      const close = server.close.bind(server);
+      server.close = async () => {
+        closed = true;
+        await close();
+      };
+      return server;
+    });
+    await initialize(app);
+    await sleep(IDLE_MS * 3);
+    assert.equal(closed, true);
+  });
+
+  it("keeps a session with an open GET stream active", async () => {
+    const app = createSessionApp();
+    const sessionId = await initialize(app);
+    const stream = await app.request("/mcp", {
+      method: "GET",
+      headers: {
+        ...HOST,
+        accept: "text/event-stream",
+        "mcp-session-id": sessionId,
+      },
+    });
+    assert.equal(stream.status, 200);
+
+    await sleep(IDLE_MS * 2);
+    assert.equal((await ping(app, sessionId)).status, 200);
+
+    // Once the client disconnects, the session idles out as usual.
+    await stream.body!.cancel();
+    await sleep(IDLE_MS * 2);
+    assert.equal((await ping(app, sessionId)).status, 404);
+  });
+});
@@ -0,0 +1,99 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import {
+  ConfigError,
+  DEFAULT_CONFIG,
+  loadConfig,
+  setConfig,
+} from "../netlify/mcp-server/config.js";
+import {
+  assertUrlAllowed,
+  isPublicAddress,
+} from "../netlify/mcp-server/url-policy.js";
+
+describe("isPublicAddress", () => {
+  it("rejects private, loopback and metadata addresses", () => {
+    for (const address of [
+      "127.0.0.1",
+      "10.1.2.3",
+      "169.254.169.254",
+      "::1",
+      "fd00::1",
+      "::ffff:7f00:1",
+    ]) {
+      assert.equal(isPublicAddress(address), false, address);
+    }
+  });
+
+  it("rejects 6to4 addresses", () => {
+    // 2002:7f00:0001:: wraps 127.0.0.1.
+    assert.equal(isPublicAddress("2002:7f00:1::1"), false);
+    assert.equal(isPublicAddress("2002:808:808::1"), false);
+  });
+
+  it("accepts public addresses", () => {
+    for (const address of ["8.8.8.8", "2606:4700:4700::1111"]) {
+      assert.equal(isPublicAddress(address), true, address);
+    }
+  });
+});
+
+describe("urlPolicy configuration", () => {
+  afterEach(() => setConfig(DEFAULT_CONFIG));
+
+  it("reads the legacy environment variables", () => {
+    const { urlPolicy } = loadConfig({
+      env: {
+        URL_ALLOWLIST: "Example.com, *.docs.example.org",
+        URL_DENYLIST: ".bad.example.com",
+        ALLOW_PRIVATE_NETWORK: "true",
+        MAX_REDIRECTS: "2",
+      },
+    });
+    assert.deepEqual(urlPolicy, {
+      allowlist: ["example.com", "docs.example.org"],
+      denylist: ["bad.example.com"],
+      allowPrivateNetwork: true,
+      maxRedirects: 2,
+    });
+  });
+
+  it("lets the environment override entrypoint defaults", () => {
+    const defaults = { urlPolicy: { allowPrivateNetwork: true } };
+    assert.equal(
+      loadConfig({ env: {}, defaults }).urlPolicy.allowPrivateNetwork,
+      true
+    );
+    const { urlPolicy } = loadConfig({
+      env: { ALLOW_PRIVATE_NETWORK: "false" },
+      defaults,
+    });
+    assert.equal(urlPolicy.allowPrivateNetwork, false);
+  });
+
+  it("reports invalid values with their source", () => {
+    assert.throws(
+      () => loadConfig({ env: { ALLOW_PRIVATE_NETWORK: "yes" } }),
+      (e: Error) =>
+        e instanceof ConfigError &&
+        /urlPolicy\.allowPrivateNetwork: .*\(from ALLOW_PRIVATE_NETWORK\)/.test(
+          e.message
+        )
+    );
+    assert.throws(
+      () => loadConfig({ env: { URL_DENYLIST: "https://example.com/" } }),
+      ConfigError
+    );
+  });
+
+  it("applies the active configuration on each check", async () => {
+    setConfig(loadConfig({ env: { URL_DENYLIST: "example.com" } }));
+    await assert.rejects(
+      assertUrlAllowed("https://www.example.com/"),
+      /is on the denylist/
+    );
+    await assert.rejects(assertUrlAllowed("http://127.0.0.1/"), /not public/);
+    setConfig(loadConfig({ env: { ALLOW_PRIVATE_NETWORK: "true" } }));
+    await assertUrlAllowed("http://127.0.0.1/");
+  });
+});